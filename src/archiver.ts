@@ -1,44 +1,199 @@
-import { execSync } from 'child_process';
-import { promises as fs } from 'fs';
-import { resolve, basename, dirname } from 'path';
-import { CompressOptions, ToolConfig } from './types.js';
-import { scanFolder, hasMetadata } from './scanner.js';
+import { promises as fs, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, basename, dirname, join } from 'path';
+import { ArchiveBackend, ArchiveRoot, CompressOptions, CompressionSettings, FileMetadata } from './types.js';
+import { scanFolder, findIgnoredPaths, hasMetadata, findStaleMetadata, isMetadataStale } from './scanner.js';
+import { STAGED_METADATA_DIR, isSpecialEntryType, readMetadataFile, setMetadataProperty, stagedMetadataPath } from './metadata.js';
+import { writeArchiveManifest } from './manifest.js';
+import { findArchiveRoots } from './lister.js';
+import { loadIgnoreMatcher, toArchivePatterns, toLiteralArchivePattern } from './ignore.js';
+import { describeKeyError, redactKey } from './password.js';
+import { getBackend, requireBackend } from './backends/index.js';
+import { archiveFileInput, splitArchive, splitArchiveExists } from './volumes.js';
+import { INTERRUPTED_EXIT_CODE, runWithProgress } from './progress.js';
+import {
+  COMPRESSION_PROPERTY,
+  DEFAULT_COMPRESSION_METHOD,
+  chooseCompressionMethod,
+  formatCompressionSettings
+} from './compression.js';
+
+/** Name of the metadata.csv property that records the archive format */
+export const FORMAT_PROPERTY = 'format';
+
+/**
+ * Check that the requested options are supported by the archive format
+ */
+function checkBackendSupport(backend: ArchiveBackend, options: CompressOptions): void {
+  if (options.incremental && !backend.supportsVersions) {
+    console.error(`Error: --incremental needs a versioned format (zpaq), ${backend.format} archives hold a single version`);
+    process.exit(1);
+  }
+  if (options.password !== undefined && !backend.supportsEncryption) {
+    console.error(`Error: ${backend.format} archives cannot be encrypted, use the zpaq or 7z format`);
+    process.exit(1);
+  }
+  if (options.incremental && options.split !== undefined) {
+    console.error('Error: --split cannot be combined with --incremental, split volumes cannot be appended to');
+    process.exit(1);
+  }
+  if (options.blockSize !== undefined && backend.format !== 'zpaq') {
+    console.warn(`Warning: --block-size only applies to zpaq and is ignored for ${backend.format}`);
+  }
+}
+
+/**
+ * Resolve the compression settings for a folder, picking a method in auto mode
+ */
+function resolveCompressionSettings(options: CompressOptions, metadata: FileMetadata[]): CompressionSettings {
+  const base = { threads: options.threads, blockSize: options.blockSize };
+
+  if (options.method === 'auto') {
+    const { method, reason } = chooseCompressionMethod(metadata);
+    console.log(`Auto mode selected method ${method} (${reason})`);
+    return { method, ...base, auto: true };
+  }
+
+  return { method: options.method ?? DEFAULT_COMPRESSION_METHOD, ...base, auto: false };
+}
 
 /**
- * Compress a folder into a zpaq archive with method 5
+ * Make sure metadata matching the folder exists and return where it is on disk and in the archive
+ * An existing metadata.csv is reused while it still matches the disk and updated otherwise (keeping the
+ * recorded timestamps of changed entries, which may have been kept on purpose with `--on-change keep`);
+ * in staged mode it is copied to (or generated in) the staged directory instead, leaving the folder untouched
  */
-export async function compressFolder(
-  folderPath: string, 
+async function prepareMetadata(
+  folderPath: string,
   options: CompressOptions,
-  toolConfig: ToolConfig
-): Promise<void> {
-  const resolvedFolderPath = resolve(folderPath);
+  stagedDir: string
+): Promise<{ metadataPath: string; root: ArchiveRoot }> {
+  const folderName = basename(folderPath);
+  const folderMetadataPath = join(folderPath, 'metadata.csv');
+  const exists = await hasMetadata(folderPath);
+  let stale = false;
   
-  console.log(`Compressing folder: ${resolvedFolderPath}`);
+  if (exists) {
+    const staleness = await findStaleMetadata(folderPath, options.exclude);
+    stale = isMetadataStale(staleness);
+    if (stale) {
+      console.log(`metadata.csv is out of date (${staleness.added} added, ${staleness.changed} changed, ${staleness.removed} removed); ` +
+        'changed entries keep their recorded timestamps (run "paqt scan --update --on-change new" first to take the new ones)');
+    }
+  }
   
-  // Check if folder exists
-  try {
-    const stats = await fs.stat(resolvedFolderPath);
-    if (!stats.isDirectory()) {
-      console.error(`Error: ${resolvedFolderPath} is not a directory`);
+  if (!options.stageMetadata) {
+    if (!exists) {
+      console.log('metadata.csv not found, scanning folder first...');
+      await scanFolder(folderPath, { exclude: options.exclude });
+    } else if (stale) {
+      console.log('Updating metadata.csv...');
+      await scanFolder(folderPath, { update: true, onChange: 'keep', exclude: options.exclude });
+    }
+    return { metadataPath: folderMetadataPath, root: { name: folderName, metadata: `${folderName}/metadata.csv` } };
+  }
+  
+  // Staged metadata is archived as .paqt/<folder>/metadata.csv next to the folder
+  const metadataPath = join(stagedDir, folderName, 'metadata.csv');
+  await fs.mkdir(dirname(metadataPath), { recursive: true });
+  
+  console.log(`Staging metadata in ${dirname(stagedDir)} (the folder is not modified)`);
+  if (exists) {
+    await fs.copyFile(folderMetadataPath, metadataPath);
+  }
+  if (!exists || stale) {
+    await scanFolder(folderPath, { update: exists, onChange: 'keep', exclude: options.exclude, output: metadataPath });
+  } else {
+    console.log('✓ Using the existing metadata.csv, which matches the folder');
+  }
+  
+  return { metadataPath, root: { name: folderName, metadata: stagedMetadataPath(folderName) } };
+}
+
+/**
+ * Check that the folders can be archived side by side
+ * Every root is stored under its own name relative to one parent directory, so names must differ and parents match
+ */
+async function checkFolders(folderPaths: string[]): Promise<void> {
+  for (const folderPath of folderPaths) {
+    try {
+      const stats = await fs.stat(folderPath);
+      if (!stats.isDirectory()) {
+        console.error(`Error: ${folderPath} is not a directory`);
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(`Error: Folder ${folderPath} does not exist`);
       process.exit(1);
     }
-  } catch (error) {
-    console.error(`Error: Folder ${resolvedFolderPath} does not exist`);
+    if (basename(folderPath) === '' || basename(folderPath) === STAGED_METADATA_DIR) {
+      console.error(`Error: ${folderPath} cannot be archived, its name is empty or reserved`);
+      process.exit(1);
+    }
+  }
+  
+  const names = folderPaths.map(folderPath => basename(folderPath));
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate !== undefined) {
+    console.error(`Error: More than one folder is named ${duplicate}, archive roots need distinct names`);
+    process.exit(1);
+  }
+  
+  const parentDir = dirname(folderPaths[0]);
+  const elsewhere = folderPaths.find(folderPath => dirname(folderPath) !== parentDir);
+  if (elsewhere !== undefined) {
+    console.error(`Error: ${elsewhere} is not in ${parentDir}, folders archived together must share a parent directory`);
     process.exit(1);
   }
+}
+
+/**
+ * Compress one or more folders into an archive (zpaq unless another format is requested)
+ * The format and compression settings are recorded in each folder's metadata.csv (its own or a staged copy),
+ * and a manifest listing the folders is stored as .paqt/manifest.json
+ */
+export async function compressFolders(
+  folderPaths: string[], 
+  options: CompressOptions
+): Promise<void> {
+  const backend = requireBackend(getBackend(options.format));
+  checkBackendSupport(backend, options);
+  const resolvedFolderPaths = folderPaths.map(folderPath => resolve(folderPath));
   
-  // Ensure metadata.csv exists
-  if (!(await hasMetadata(resolvedFolderPath))) {
-    console.log('metadata.csv not found, scanning folder first...');
-    await scanFolder(resolvedFolderPath);
+  for (const resolvedFolderPath of resolvedFolderPaths) {
+    console.log(`Compressing folder: ${resolvedFolderPath}`);
   }
+  await checkFolders(resolvedFolderPaths);
   
-  // Determine output archive path
-  const folderName = basename(resolvedFolderPath);
-  const defaultArchiveName = `${folderName}.zpaq`;
+  // Determine output archive path (named after the first folder)
+  const folderNames = resolvedFolderPaths.map(folderPath => basename(folderPath));
+  const defaultArchiveName = `${folderNames[0]}${backend.extension}`;
   const archivePath = options.output ? resolve(options.output) : resolve(defaultArchiveName);
   
+  // Archivers append to or update existing archives, so only touch one when a new version is wanted
+  const archiveExists = await fs.access(archivePath).then(() => true, () => false);
+  if (archiveExists && !options.incremental) {
+    console.error(`Error: Archive ${archivePath} already exists`);
+    console.error('Use --incremental to add a new version to it, or choose another output path');
+    process.exit(1);
+  }
+  if (await splitArchiveExists(archivePath)) {
+    console.error(`Error: Split archive ${archivePath} already exists, choose another output path`);
+    process.exit(1);
+  }
+  
+  // The manifest and staged metadata are archived from a temporary .paqt directory
+  const stagingRoot = await fs.mkdtemp(join(tmpdir(), 'paqt-'));
+  process.once('exit', () => rmSync(stagingRoot, { recursive: true, force: true }));
+  const stagedDir = join(stagingRoot, STAGED_METADATA_DIR);
+  await fs.mkdir(stagedDir);
+  
+  // Ensure metadata reflects the current state of each folder (also for every new version)
+  const prepared: Array<{ metadataPath: string; root: ArchiveRoot }> = [];
+  for (const resolvedFolderPath of resolvedFolderPaths) {
+    prepared.push(await prepareMetadata(resolvedFolderPath, options, stagedDir));
+  }
+  
   // Ensure output directory exists
   const archiveDir = dirname(archivePath);
   try {
@@ -48,29 +203,99 @@ export async function compressFolder(
     process.exit(1);
   }
   
-  // Build zpaq command with method 5 compression
-  const parentDir = dirname(resolvedFolderPath);
-  const command = [
-    toolConfig.zpaqCommand,
-    'a',
-    `"${archivePath}"`,
-    `"${folderName}"`,
-    `-m5`,  // Method 5 compression
-  ].join(' ');
+  const excludes: string[] = [];
+  const metadata: FileMetadata[] = [];
+  for (const [index, { metadataPath, root }] of prepared.entries()) {
+    // Translate .paqtignore and --exclude into archiver exclude patterns; rules that patterns cannot express
+    // exactly are applied by excluding the paths they leave out, as found by walking the folder
+    const ignore = await loadIgnoreMatcher(resolvedFolderPaths[index], options.exclude);
+    const translated = toArchivePatterns(ignore, root.name);
+    const literalPaths: string[] = [];
+    if (translated.unsupported.length === 0) {
+      excludes.push(...translated.patterns);
+    } else {
+      console.log(`Finding paths excluded by ${translated.unsupported.join(', ')} in ${root.name}...`);
+      const ignoredPaths = await findIgnoredPaths(resolvedFolderPaths[index], ignore);
+      console.log(`✓ Excluding ${ignoredPaths.length} ignored paths`);
+      literalPaths.push(...ignoredPaths);
+    }
+    
+    // Special files are recorded in metadata only; reading a FIFO or device would block or dump device contents
+    const rootMetadata = await readMetadataFile(metadataPath);
+    const specialFiles = rootMetadata.filter(entry => isSpecialEntryType(entry.type));
+    if (specialFiles.length > 0) {
+      console.log(`Excluding ${specialFiles.length} special files (FIFOs, sockets, devices) in ${root.name} from the archive`);
+      literalPaths.push(...specialFiles.map(entry => entry.path));
+    }
+    
+    const archivedPaths = rootMetadata.filter(entry => !isSpecialEntryType(entry.type)).map(entry => `${root.name}/${entry.path}`);
+    for (const literalPath of literalPaths) {
+      const path = `${root.name}/${literalPath}`;
+      const { pattern, collisions } = toLiteralArchivePattern(path, archivedPaths, backend.escapeWildcards);
+      if (collisions.length > 0) {
+        console.error(`Error: ${backend.tool} cannot exclude ${path} without also excluding ${collisions.join(', ')}`);
+        console.error('Rename it or move it out of the folder');
+        process.exit(1);
+      }
+      excludes.push(pattern);
+    }
+    metadata.push(...rootMetadata);
+  }
+  
+  // Record the settings so the archive documents how it was made
+  const settings = resolveCompressionSettings(options, metadata);
+  for (const { metadataPath } of prepared) {
+    await setMetadataProperty(metadataPath, FORMAT_PROPERTY, backend.format);
+    await setMetadataProperty(metadataPath, COMPRESSION_PROPERTY, formatCompressionSettings(settings));
+  }
   
-  console.log('Compressing with zpaq method 5...');
-  console.log(`Command: ${command}`);
+  // A new version still lists the roots earlier versions added and this one leaves untouched
+  const roots = prepared.map(({ root }) => root);
+  if (archiveExists) {
+    const previousRoots = findArchiveRoots(backend, await archiveFileInput(archivePath), options.password);
+    roots.push(...previousRoots.filter(previous => !folderNames.includes(previous.name)));
+    roots.sort((a, b) => a.name.localeCompare(b.name));
+  }
+  await writeArchiveManifest(stagedDir, roots);
+  
+  // Build the archiver command, run from the parent so paths start with the folder names
+  const parentDir = dirname(resolvedFolderPaths[0]);
+  const command = backend.compressCommand({
+    archivePath,
+    rootNames: folderNames,
+    excludes,
+    settings,
+    password: options.password,
+    stagedDir
+  });
+  
+  console.log(`Compressing with ${backend.tool} (${formatCompressionSettings(settings)}${options.password !== undefined ? ', encrypted' : ''})...`);
+  console.log(`Command: ${redactKey(command, options.password)}`);
   
   try {
-    // Execute compression command in parent directory
-    execSync(command, { 
-      cwd: parentDir,
-      stdio: 'inherit',
-      maxBuffer: 1024 * 1024 * 100, // 100MB buffer
-      encoding: 'utf8'
-    });
+    // Execute compression command in parent directory; progress is measured against the bytes of all files
+    const totalBytes = metadata.reduce((sum, entry) => sum + (entry.type === 'file' ? entry.size ?? 0 : 0), 0);
+    const result = await runWithProgress(command, parentDir, { totalBytes, parse: backend.parseProgress });
+    if (result.interrupted) {
+      if (archiveExists) {
+        // zpaq is journaling: an interrupted update is ignored and overwritten by the next one
+        console.error(`⚠️  Compression cancelled, ${archivePath} keeps its previous versions`);
+      } else {
+        await fs.rm(archivePath, { force: true });
+        console.error(`⚠️  Compression cancelled, removed incomplete archive ${archivePath}`);
+      }
+      process.exit(INTERRUPTED_EXIT_CODE);
+    }
+    if (result.status !== 0) {
+      console.error(`Error during compression: ${backend.tool} exited with code ${result.status}`);
+      const keyError = describeKeyError(result.stderr, options.password);
+      if (keyError) {
+        console.error(keyError);
+      }
+      process.exit(1);
+    }
     
-    console.log(`✓ Archive created: ${archivePath}`);
+    console.log(archiveExists ? `✓ New version added to archive: ${archivePath}` : `✓ Archive created: ${archivePath}`);
     
     // Verify archive was created and has content
     const stats = await fs.stat(archivePath);
@@ -81,6 +306,10 @@ export async function compressFolder(
     
     console.log(`  Size: ${(stats.size / (1024 * 1024)).toFixed(2)} MB`);
     
+    if (options.split !== undefined) {
+      await splitArchive(archivePath, options.split, backend.format);
+    }
+    
   } catch (error) {
     console.error('Error during compression:', error);
     process.exit(1);
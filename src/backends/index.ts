@@ -0,0 +1,99 @@
+import { execSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { ArchiveBackend, ArchiveFormat } from '../types.js';
+import { describeKeyError } from '../password.js';
+import { zpaqBackend } from './zpaq.js';
+import { tarXzBackend, tarZstdBackend } from './tar.js';
+import { sevenZipBackend } from './sevenzip.js';
+
+/**
+ * Registry of archive backends and archive format detection
+ */
+
+/** All supported backends; the first one is the default format */
+const BACKENDS: ArchiveBackend[] = [zpaqBackend, tarZstdBackend, tarXzBackend, sevenZipBackend];
+
+/** Format names accepted by --format */
+export const ARCHIVE_FORMATS: ArchiveFormat[] = BACKENDS.map(backend => backend.format);
+
+/** Number of bytes read to recognize an archive format */
+const MAGIC_LENGTH = 16;
+
+/**
+ * Get the backend for a format
+ */
+export function getBackend(format: ArchiveFormat = 'zpaq'): ArchiveBackend {
+  return BACKENDS.find(backend => backend.format === format)!;
+}
+
+/**
+ * Check that the tools of a backend are installed, exiting with install hints otherwise
+ * With `quiet`, only errors are printed (for machine-readable output)
+ */
+export function requireBackend(backend: ArchiveBackend, quiet: boolean = false): ArchiveBackend {
+  if (!quiet) {
+    console.log('Checking for required tools...');
+  }
+
+  if (!backend.detect()) {
+    console.error(`Error: ${backend.tool} command not found. Please install ${backend.tool} to use the ${backend.format} format.`);
+    backend.installHints.forEach(hint => console.error(`  ${hint}`));
+    process.exit(1);
+  }
+
+  if (!quiet) {
+    console.log(`✓ Using ${backend.tool} (${backend.format})`);
+  }
+  return backend;
+}
+
+/**
+ * Detect the format of an existing archive by its magic bytes, then by its extension
+ * Returns null when neither identifies the format
+ */
+export async function detectArchiveFormat(archivePath: string): Promise<ArchiveFormat | null> {
+  const handle = await fs.open(archivePath, 'r');
+  try {
+    const header = Buffer.alloc(MAGIC_LENGTH);
+    await handle.read(header, 0, MAGIC_LENGTH, 0);
+    const byMagic = BACKENDS.find(backend => backend.matchesMagic(header));
+    if (byMagic) {
+      return byMagic.format;
+    }
+  } finally {
+    await handle.close();
+  }
+
+  // Encrypted zpaq archives start with a random salt and have no magic
+  const byExtension = BACKENDS.find(backend => archivePath.toLowerCase().endsWith(backend.extension));
+  return byExtension ? byExtension.format : null;
+}
+
+/**
+ * Find and check the backend that can read an existing archive
+ * Unrecognized archives are treated as zpaq, the default format
+ */
+export async function resolveArchiveBackend(archivePath: string, quiet: boolean = false): Promise<ArchiveBackend> {
+  const format = await detectArchiveFormat(archivePath);
+  if (!format && !quiet) {
+    console.warn(`Warning: Could not recognize the format of ${archivePath}, assuming zpaq`);
+  }
+  return requireBackend(getBackend(format ?? 'zpaq'), quiet);
+}
+
+/**
+ * Run a listing command and return its output
+ * Failures caused by a missing or wrong password are reported as such
+ */
+export function runListing(command: string, password?: string): string {
+  try {
+    return execSync(command, {
+      stdio: ['ignore', 'pipe', 'pipe'],
+      maxBuffer: 1024 * 1024 * 500, // 500MB buffer for archives with millions of entries
+      encoding: 'utf8'
+    });
+  } catch (error) {
+    const stderr = String((error as { stderr?: string }).stderr ?? '');
+    throw new Error(describeKeyError(stderr, password) ?? (stderr.trim() || (error as Error).message));
+  }
+}
@@ -0,0 +1,107 @@
+import { ArchiveBackend, ArchiveEntry, CompressionMethod } from '../types.js';
+import { commandExists, shellQuote } from '../utils.js';
+import { parsePercentProgress } from '../progress.js';
+
+/**
+ * 7-Zip (.7z): widely available, supports AES encryption (including file names)
+ * No versions; symlinks are recreated from metadata.csv on restore
+ */
+
+/** -mx level for each paqt method */
+const LEVELS: Record<CompressionMethod, number> = { 0: 0, 1: 1, 2: 3, 3: 5, 4: 7, 5: 9 };
+
+/**
+ * Build the 7z arguments that pass the password
+ */
+function passwordArgs(password?: string): string[] {
+  return password !== undefined ? [`-p${shellQuote(password)}`] : [];
+}
+
+/**
+ * Parse `7z l -slt` output (run with TZ=UTC) into typed entries
+ * The technical listing has one "Key = Value" block per entry after a dashed separator line
+ */
+function parseListing(output: string): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  const body = output.split(/^-{10,}$/m).slice(1).join('\n');
+
+  for (const block of body.split(/\r?\n\s*\r?\n/)) {
+    const fields = new Map<string, string>();
+    for (const line of block.split(/\r?\n/)) {
+      const separator = line.indexOf(' = ');
+      if (separator !== -1) {
+        fields.set(line.slice(0, separator), line.slice(separator + 3));
+      }
+    }
+
+    const path = fields.get('Path');
+    const modified = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})/.exec(fields.get('Modified') ?? '');
+    if (!path || !modified) {
+      continue;
+    }
+
+    entries.push({
+      path,
+      type: fields.get('Folder') === '+' ? 'directory' : 'file',
+      size: parseInt(fields.get('Size') ?? '0', 10) || 0,
+      date: `${modified[1]}T${modified[2]}.000Z`,
+      attributes: fields.get('Attributes') ?? ''
+    });
+  }
+
+  return entries;
+}
+
+export const sevenZipBackend: ArchiveBackend = {
+  format: '7z',
+  extension: '.7z',
+  tool: '7z',
+  installHints: ['On macOS: brew install p7zip', 'On Ubuntu/Debian: sudo apt install p7zip-full'],
+  supportsVersions: false,
+  supportsEncryption: true,
+  opensVolumes: true,
+
+  detect: () => commandExists('7z'),
+
+  matchesMagic: header => [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c].every((byte, index) => header[index] === byte),
+
+  compressCommand: request => [
+    '7z',
+    'a',
+    '-t7z',
+    shellQuote(request.archivePath),
+    ...request.rootNames.map(name => shellQuote(name)),
+    shellQuote(request.stagedDir),
+    `-mx=${LEVELS[request.settings.method]}`,
+    '-bsp1',
+    ...(request.settings.threads !== undefined ? [`-mmt=${request.settings.threads}`] : []),
+    // Encrypt file names too, so listing requires the password like zpaq
+    ...(request.password !== undefined ? [...passwordArgs(request.password), '-mhe=on'] : []),
+    ...request.excludes.map(p => shellQuote(`-x!${p}`))
+  ].join(' '),
+
+  extractCommand: request => [
+    '7z',
+    'x',
+    shellQuote(request.archivePath),
+    '-y',
+    '-bsp1',
+    ...(request.skipExisting ? ['-aos'] : []),
+    ...passwordArgs(request.password),
+    ...request.includes.map(p => shellQuote(p)),
+    ...request.excludes.map(p => shellQuote(`-x!${p}`))
+  ].join(' '),
+
+  testCommand: request => ['7z', 't', shellQuote(request.archivePath), '-bsp1', ...passwordArgs(request.password)].join(' '),
+
+  // 7z prints local times, so list in UTC
+  listCommand: request => ['TZ=UTC', '7z', 'l', '-slt', shellQuote(request.archivePath), ...passwordArgs(request.password)].join(' '),
+
+  parseListing,
+
+  // -bsp1 prints progress percentages to stdout
+  parseProgress: parsePercentProgress,
+
+  // -aos skips files already on disk
+  skipsExisting: true
+};
@@ -0,0 +1,148 @@
+import { basename, dirname } from 'path';
+import { ArchiveBackend, ArchiveEntry, ArchiveFormat, CompressionMethod } from '../types.js';
+import { commandExists, shellQuote } from '../utils.js';
+
+/**
+ * tar streams compressed with zstd or xz (GNU tar)
+ * No versions or encryption; hard links and symlinks are stored by tar itself
+ */
+
+/** A line of `tar -tv --full-time`, e.g. "-rw-r--r-- user/group  1234 2024-05-01 12:00:00 folder/file.txt" */
+const ENTRY_LINE = /^([-dlhcbps])\S*\s+\S+\s+([\d,]+)\s+(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})\s+(.+)$/;
+
+/** A checkpoint line printed while creating an archive, e.g. "tar: W: 92160 (90KiB, 706MiB/s)" */
+const CHECKPOINT_LINE = /W: (\d+)/g;
+
+/** Records (10 KiB each) between two checkpoint lines */
+const CHECKPOINT_RECORDS = 100;
+
+/** Compression settings of a tar compressor */
+interface TarCompressor {
+  format: ArchiveFormat;
+  extension: string;
+  program: string;
+  levels: Record<CompressionMethod, number>; // compressor level for each paqt method
+  magic: number[];
+  installHints: string[];
+}
+
+/**
+ * Parse `tar -tv --full-time` output (run with TZ=UTC) into typed entries
+ */
+function parseListing(output: string): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = ENTRY_LINE.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    // Link targets are printed after the name
+    const path = match[5].replace(/ (->|link to) .*$/, '');
+    const attributes = line.split(/\s+/)[0];
+    entries.push({
+      path: path.replace(/\/$/, ''),
+      type: match[1] === 'd' ? 'directory' : 'file',
+      size: parseInt(match[2], 10) || 0,
+      date: `${match[3]}T${match[4]}.000Z`,
+      attributes
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Create a tar backend for one compressor
+ */
+function createTarBackend(compressor: TarCompressor): ArchiveBackend {
+  const decompressProgram = `--use-compress-program='${compressor.program} -d'`;
+
+  return {
+    format: compressor.format,
+    extension: compressor.extension,
+    tool: compressor.program,
+    installHints: compressor.installHints,
+    supportsVersions: false,
+    supportsEncryption: false,
+
+    detect: () => commandExists('tar') && commandExists(compressor.program),
+
+    matchesMagic: header => compressor.magic.every((byte, index) => header[index] === byte),
+
+    compressCommand: request => {
+      const { method, threads } = request.settings;
+      const program = `${compressor.program} -T${threads ?? 0} -${compressor.levels[method]}`;
+      return [
+        'tar',
+        `--use-compress-program='${program}'`,
+        `--checkpoint=${CHECKPOINT_RECORDS}`,
+        `--checkpoint-action='echo=%T'`,
+        '-cf',
+        shellQuote(request.archivePath),
+        ...request.excludes.map(p => `--exclude=${shellQuote(p)}`),
+        ...request.rootNames.map(name => shellQuote(name)),
+        '-C',
+        shellQuote(dirname(request.stagedDir)),
+        shellQuote(basename(request.stagedDir))
+      ].join(' ');
+    },
+
+    // The archive is piped in, so progress is measured by the bytes fed to tar
+    extractCommand: request => [
+      'tar',
+      decompressProgram,
+      '-xf',
+      '-',
+      '--wildcards',
+      ...(request.skipExisting ? ['--skip-old-files'] : []),
+      ...request.excludes.map(p => `--exclude=${shellQuote(p)}`),
+      ...request.includes.map(p => shellQuote(p))
+    ].join(' '),
+
+    // Reading the whole stream makes the compressor verify its checksums
+    testCommand: () => ['tar', decompressProgram, '-tf', '-', '>', '/dev/null'].join(' '),
+
+    // tar prints local times, so list in UTC
+    listCommand: request => ['TZ=UTC', 'tar', decompressProgram, '-tvf', shellQuote(request.archivePath), '--full-time'].join(' '),
+
+    parseListing,
+
+    // Unanchored globs are passed in two variants, one of which usually matches nothing
+    isMissingMatchOnly: stderr => stderr.split(/\r?\n/)
+      .filter(line => line.trim() !== '')
+      .every(line => /Not found in archive|Exiting with failure status due to previous errors/.test(line)),
+
+    parseProgress: output => {
+      const matches = Array.from(output.matchAll(CHECKPOINT_LINE));
+      return matches.length > 0 ? { bytes: parseInt(matches[matches.length - 1][1], 10) } : null;
+    },
+
+    extractsFromStdin: true,
+
+    // --skip-old-files keeps files already on disk
+    skipsExisting: true,
+
+    // GNU tar patterns take backslash escapes
+    escapeWildcards: path => path.replace(/[\\*?[]/g, '\\$&')
+  };
+}
+
+export const tarZstdBackend = createTarBackend({
+  format: 'tar.zst',
+  extension: '.tar.zst',
+  program: 'zstd',
+  levels: { 0: 1, 1: 3, 2: 6, 3: 12, 4: 17, 5: 19 },
+  magic: [0x28, 0xb5, 0x2f, 0xfd],
+  installHints: ['On macOS: brew install zstd', 'On Ubuntu/Debian: sudo apt install zstd']
+});
+
+export const tarXzBackend = createTarBackend({
+  format: 'tar.xz',
+  extension: '.tar.xz',
+  program: 'xz',
+  levels: { 0: 0, 1: 1, 2: 3, 3: 6, 4: 8, 5: 9 },
+  magic: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00],
+  installHints: ['On macOS: brew install xz', 'On Ubuntu/Debian: sudo apt install xz-utils']
+});
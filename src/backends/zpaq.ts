@@ -0,0 +1,158 @@
+import { basename } from 'path';
+import { ArchiveBackend, ArchiveEntry, ArchiveVersion, CompressionSettings } from '../types.js';
+import { commandExists, shellQuote } from '../utils.js';
+import { parsePercentProgress } from '../progress.js';
+
+/**
+ * zpaq: journaling archives with deduplication, versions and AES encryption
+ */
+
+/** A version header line of `zpaq l -all`, e.g. "- 2024-05-01 12:00:00  0 0002 +14 -3 -> 52814" */
+const VERSION_LINE = /^\S\s+(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})\s+(?:\d+\s+)?(\d{4,})\s+\+(\d+)\s+-(\d+)\s+->\s+(\d+)/;
+
+/** A file entry line of `zpaq l`, e.g. "- 2024-05-01 12:00:00         1234 0644 folder/file.txt" */
+const ENTRY_LINE = /^[-+#=]\s+(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})\s+(\d+)\s+(?:([0-7]{3,7}|[A-Z.]+)\s+)?(.+)$/;
+
+/** Version prefix zpaq puts in front of paths when listing all versions */
+const VERSION_PREFIX = /^(\d{4,})\/(.*)$/;
+
+/**
+ * Build the zpaq arguments for compression settings
+ */
+function methodArgs(settings: CompressionSettings): string[] {
+  return [
+    `-m${settings.method}${settings.blockSize !== undefined ? settings.blockSize : ''}`,
+    ...(settings.threads !== undefined ? ['-threads', String(settings.threads)] : [])
+  ];
+}
+
+/**
+ * Build the zpaq arguments that pass the encryption key
+ */
+function keyArgs(password?: string): string[] {
+  return password !== undefined ? ['-key', shellQuote(password)] : [];
+}
+
+/**
+ * Parse `zpaq l` output into typed entries
+ * With `allVersions`, paths carry a version prefix ("0002/folder/file") that is split off
+ */
+function parseListing(output: string, allVersions: boolean): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    if (VERSION_LINE.test(line)) {
+      continue;
+    }
+    const match = ENTRY_LINE.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    let path = match[4];
+    let version: number | undefined;
+    const prefixed = allVersions ? VERSION_PREFIX.exec(path) : null;
+    if (prefixed) {
+      version = parseInt(prefixed[1], 10);
+      path = prefixed[2];
+    }
+
+    const attributes = match[3] ?? '';
+    const isDirectory = path.endsWith('/') || attributes.startsWith('D') || /^0?40\d{3}$/.test(attributes);
+    entries.push({
+      path: path.replace(/\/$/, ''),
+      type: isDirectory ? 'directory' : 'file',
+      size: parseInt(match[2], 10),
+      date: `${match[1].replace(' ', 'T')}.000Z`,
+      attributes,
+      ...(version !== undefined ? { version } : {})
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse the version header lines from `zpaq l -all` output
+ * zpaq prints dates in UTC
+ */
+function parseVersions(output: string): ArchiveVersion[] {
+  const versions: ArchiveVersion[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = VERSION_LINE.exec(line);
+    if (!match) {
+      continue;
+    }
+    versions.push({
+      number: parseInt(match[2], 10),
+      date: `${match[1].replace(' ', 'T')}.000Z`,
+      addedFiles: parseInt(match[3], 10),
+      deletedFiles: parseInt(match[4], 10),
+      compressedSize: parseInt(match[5], 10)
+    });
+  }
+
+  return versions.sort((a, b) => a.number - b.number);
+}
+
+export const zpaqBackend: ArchiveBackend = {
+  format: 'zpaq',
+  extension: '.zpaq',
+  tool: 'zpaq',
+  installHints: [
+    'On macOS: brew install zpaq',
+    'On Ubuntu/Debian: sudo apt install zpaq',
+    'Or download from: https://mattmahoney.net/dc/zpaq.html'
+  ],
+  supportsVersions: true,
+  supportsEncryption: true,
+
+  detect: () => commandExists('zpaq'),
+
+  // Journaling archives start with a "7kSt" locator tag or a "zPQ" block; encrypted ones look random
+  matchesMagic: header => header.subarray(0, 4).toString('latin1') === '7kSt' || header.subarray(0, 3).toString('latin1') === 'zPQ',
+
+  compressCommand: request => [
+    'zpaq',
+    'a',
+    shellQuote(request.archivePath),
+    ...request.rootNames.map(name => shellQuote(name)),
+    shellQuote(request.stagedDir),
+    // -to renames every listed file in order, so the roots keep their names and the staged directory becomes .paqt
+    '-to',
+    ...request.rootNames.map(name => shellQuote(name)),
+    shellQuote(basename(request.stagedDir)),
+    ...methodArgs(request.settings),
+    ...keyArgs(request.password),
+    ...(request.excludes.length > 0 ? ['-not', ...request.excludes.map(p => shellQuote(p))] : [])
+  ].join(' '),
+
+  extractCommand: request => [
+    'zpaq',
+    'x',
+    shellQuote(request.archivePath),
+    ...request.includes.map(p => shellQuote(p)),
+    ...(request.excludes.length > 0 ? ['-not', ...request.excludes.map(p => shellQuote(p))] : []),
+    ...(request.until !== undefined ? ['-until', request.until] : []),
+    ...keyArgs(request.password)
+  ].join(' '),
+
+  // -test verifies checksums without writing files
+  testCommand: request => ['zpaq', 'x', shellQuote(request.archivePath), '-test', ...keyArgs(request.password)].join(' '),
+
+  listCommand: request => [
+    'zpaq',
+    'l',
+    shellQuote(request.archivePath),
+    ...(request.match !== undefined ? [shellQuote(request.match)] : []),
+    ...(request.allVersions ? ['-all'] : []),
+    ...keyArgs(request.password)
+  ].join(' '),
+
+  parseListing,
+  parseVersions,
+
+  // zpaq reports progress as a percentage of the input
+  parseProgress: parsePercentProgress
+};
@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs';
 import { execSync } from 'child_process';
 import { join, relative, resolve } from 'path';
+import { IgnoreMatcher, isPathIgnored, loadIgnoreMatcher } from './ignore.js';
 import { SAFE_PATTERNS, CAREFUL_PATTERNS, DANGEROUS_PATTERNS, ALL_PATTERNS, SuspiciousPattern, getPatternsByCategory } from './patterns.js';
 
 export interface CleanOptions {
@@ -9,6 +10,7 @@ export interface CleanOptions {
   includeDangerous?: boolean;
   patterns?: string[];
   interactive?: boolean;
+  exclude?: string[];
 }
 
 export interface CleanStats {
@@ -114,7 +116,8 @@ async function countFiles(dirPath: string): Promise<number> {
  */
 async function findMatchingDirectories(
   basePath: string, 
-  patterns: SuspiciousPattern[]
+  patterns: SuspiciousPattern[],
+  ignore: IgnoreMatcher
 ): Promise<{ path: string; pattern: SuspiciousPattern; size: number; fileCount: number }[]> {
   const results: { path: string; pattern: SuspiciousPattern; size: number; fileCount: number }[] = [];
   
@@ -129,7 +132,8 @@ async function findMatchingDirectories(
       const paths = output.trim().split('\n').filter(p => p.trim());
       
       for (const path of paths) {
-        if (path.trim()) {
+        // Paths excluded by .paqtignore or --exclude are never touched
+        if (path.trim() && !isPathIgnored(ignore, relative(basePath, path.trim()), true)) {
           const size = await getDirectorySize(path);
           const fileCount = await countFiles(path);
           results.push({
@@ -241,7 +245,11 @@ export async function cleanDirectories(folderPath: string, options: CleanOptions
   }
   
   // Find matching directories
-  const matchingDirs = await findMatchingDirectories(resolvedPath, patternsToUse);
+  const ignore = await loadIgnoreMatcher(resolvedPath, options.exclude);
+  if (ignore.rules.length > 0) {
+    console.log(`\n🙈 Skipping paths matching ${ignore.rules.length} ignore rules`);
+  }
+  const matchingDirs = await findMatchingDirectories(resolvedPath, patternsToUse, ignore);
   stats.scannedDirs = matchingDirs.length;
   
   if (matchingDirs.length === 0) {
@@ -1,14 +1,23 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
+import { dirname } from 'path';
 import { scanFolder } from './scanner.js';
-import { compressFolder } from './archiver.js';
+import { compressFolders } from './archiver.js';
 import { decompressArchive } from './restorer.js';
 import { cleanDirectories } from './cleaner.js';
 import { getDirectoryInfo } from './info.js';
+import { verifyFolder, hasMismatches } from './verifier.js';
+import { restoreTimes } from './retimer.js';
+import { showArchiveVersions } from './versions.js';
+import { listArchive } from './lister.js';
+import { TEST_EXIT_CODES, testArchive } from './tester.js';
+import { PASSWORD_ENV_VAR, resolvePassword } from './password.js';
 import { resetBaseDirectory, removeRelative, resolveFolderPath } from './rmops.js';
-import { detectTools } from './utils.js';
-import { ScanOptions, CleanOptions } from './types.js';
+import { parseSize } from './utils.js';
+import { ARCHIVE_FORMATS } from './backends/index.js';
+import { MAX_BLOCK_SIZE } from './compression.js';
+import { ScanOptions, CleanOptions, InfoOptions, CompressOptions, CompressionMethod, ListOptions, MergeStrategy } from './types.js';
 import { packageInfo } from './env.js';
 
 /**
@@ -20,7 +29,9 @@ async function main(): Promise<void> {
   program
     .name(packageInfo.name)
     .description(packageInfo.description)
-    .version(packageInfo.version);
+    .version(packageInfo.version)
+    // Program options only apply before the subcommand, so `decompress --version <n>` reaches the subcommand
+    .enablePositionalOptions();
   
   // Scan subcommand
   program
@@ -28,14 +39,41 @@ async function main(): Promise<void> {
     .description('Recursively scan a folder and create/update metadata.csv')
     .argument('[folder]', 'folder to scan (optional - uses stored path from previous info command)')
     .option('--append-only', 'append new files without updating existing timestamps')
-    .action(async (folder: string | undefined, options: ScanOptions) => {
+    .option('--update', 'reconcile existing metadata with the disk (add new, update changed, drop deleted entries)')
+    .addOption(new Option('--on-change <policy>', 'how --update treats changed entries').choices(['keep', 'new', 'ask']).default('new'))
+    .option('--hash', 'compute SHA-256 content hashes for verification')
+    .option('--concurrency <n>', 'maximum concurrent filesystem calls', '32')
+    .option('--exclude <patterns...>', 'gitignore-style patterns to exclude (in addition to .paqtignore)')
+    .option('--report <file>', 'write a JSON report of the scan and its issues')
+    .action(async (folder: string | undefined, options: any) => {
       const resolvedPath = await resolveFolderPath(folder);
       if (!resolvedPath) {
         process.exit(1);
       }
       
       try {
-        await scanFolder(resolvedPath, options);
+        const concurrency = parseInt(options.concurrency, 10);
+        if (isNaN(concurrency) || concurrency < 1) {
+          console.error(`❌ Invalid concurrency: ${options.concurrency}`);
+          process.exit(1);
+        }
+        
+        if (options.appendOnly && options.update) {
+          console.error('❌ --append-only and --update cannot be used together');
+          process.exit(1);
+        }
+        
+        const scanOptions: ScanOptions = {
+          appendOnly: options.appendOnly,
+          update: options.update,
+          onChange: options.onChange,
+          hash: options.hash,
+          concurrency,
+          exclude: options.exclude,
+          report: options.report
+        };
+        
+        await scanFolder(resolvedPath, scanOptions);
       } catch (error) {
         console.error('Scan failed:', error);
         process.exit(1);
@@ -45,17 +83,70 @@ async function main(): Promise<void> {
   // Compress subcommand
   program
     .command('compress')
-    .argument('[folder]', 'folder to compress (uses stored path if omitted)')
-    .description('Compress a folder into a zpaq archive')
-    .option('-o, --output <archive>', 'output archive path (default: <folder-name>.zpaq)')
-    .action(async (folder, options) => {
-      const tools = detectTools();
-      
+    .argument('[folders...]', 'folders to compress, side by side in one parent directory (uses stored path if omitted)')
+    .description('Compress one or more folders into an archive (zpaq by default)')
+    .option('-o, --output <archive>', 'output archive path (default: the first folder name plus the format extension)')
+    .addOption(new Option('--format <format>', 'archive format').choices(ARCHIVE_FORMATS).default('zpaq'))
+    .option('--exclude <patterns...>', 'gitignore-style patterns to exclude (in addition to .paqtignore)')
+    .addOption(new Option('--method <method>', 'compression method (mapped to a compression level for other formats), or auto to pick one from the folder size and content')
+      .choices(['0', '1', '2', '3', '4', '5', 'auto']).default('5'))
+    .option('--threads <n>', 'number of compression threads (default: number of cores)')
+    .option('--block-size <n>', `log2 of the block size in MB (0-${MAX_BLOCK_SIZE})`)
+    .option('--incremental', 'add a new version to an existing archive instead of failing')
+    .option('--stage-metadata', 'generate metadata.csv in a temporary directory and store it under .paqt/ instead of writing it into the folder')
+    .option('--split <size>', 'split the archive into numbered volumes of at most this size (e.g. 4G) plus an index')
+    .option('--password', `prompt for a password to encrypt the archive (or set ${PASSWORD_ENV_VAR})`)
+    .option('--password-file <file>', 'read the encryption password from a file')
+    .addHelpText('after', '\nEvery folder is stored under its own name, relative to the parent directory it shares with the others.\n' +
+      'Folders from different parent directories cannot be archived together; compress them into separate archives.')
+    .action(async (folders: string[], options) => {
       try {
-        const folderPath = await resolveFolderPath(folder);
-        if (!folderPath) return;
+        const folderPaths: string[] = [];
+        for (const folder of folders.length > 0 ? folders : [undefined]) {
+          const folderPath = await resolveFolderPath(folder);
+          if (!folderPath) return;
+          folderPaths.push(folderPath);
+        }
+        
+        const parentDirs = [...new Set(folderPaths.map(folderPath => dirname(folderPath)))];
+        if (parentDirs.length > 1) {
+          console.error(`❌ Folders archived together must share a parent directory, these are in: ${parentDirs.join(', ')}`);
+          console.error('💡 Hint: Move them into one directory, or compress them into separate archives.');
+          process.exit(1);
+        }
+        
+        const threads = options.threads !== undefined ? parseInt(options.threads, 10) : undefined;
+        if (threads !== undefined && (isNaN(threads) || threads < 1)) {
+          console.error(`❌ Invalid thread count: ${options.threads}`);
+          process.exit(1);
+        }
+        
+        const blockSize = options.blockSize !== undefined ? parseInt(options.blockSize, 10) : undefined;
+        if (blockSize !== undefined && (isNaN(blockSize) || blockSize < 0 || blockSize > MAX_BLOCK_SIZE)) {
+          console.error(`❌ Invalid block size: ${options.blockSize} (expected 0-${MAX_BLOCK_SIZE})`);
+          process.exit(1);
+        }
+        
+        const split = options.split !== undefined ? parseSize(options.split) : undefined;
+        if (split !== undefined && (isNaN(split) || split < 1)) {
+          console.error(`❌ Invalid volume size: ${options.split}`);
+          process.exit(1);
+        }
+        
+        const compressOptions: CompressOptions = {
+          output: options.output,
+          format: options.format,
+          exclude: options.exclude,
+          method: options.method === 'auto' ? 'auto' : parseInt(options.method, 10) as CompressionMethod,
+          threads,
+          blockSize,
+          incremental: options.incremental,
+          split,
+          stageMetadata: options.stageMetadata,
+          password: await resolvePassword(options, true)
+        };
         
-        await compressFolder(folderPath, options, tools);
+        await compressFolders(folderPaths, compressOptions);
       } catch (error) {
         console.error('Error during compression:', error);
         process.exit(1);
@@ -65,13 +156,58 @@ async function main(): Promise<void> {
   // Decompress subcommand
   program
     .command('decompress')
-    .argument('<archive>', 'zpaq archive to decompress')
-    .description('Decompress a zpaq archive and restore timestamps')
+    .argument('<archive>', 'archive to decompress (format is detected), or the index or first volume of a split archive')
+    .description('Decompress an archive and restore timestamps')
     .option('-o, --output [directory]', 'output directory (if no value provided, uses stored path)')
+    .option('--special-files', 'recreate FIFOs and (when running as root) device nodes recorded in metadata')
+    .option('--version <n>', 'extract the given archive version (see "paqt versions")')
+    .option('--until <date>', 'extract the latest version created at or before this date')
+    .option('--include <globs...>', 'only extract entries matching these gitignore-style globs')
+    .option('--exclude <globs...>', 'do not extract entries matching these gitignore-style globs')
+    .option('--overwrite', 'merge into a non-empty output directory, replacing existing files')
+    .option('--skip-existing', 'merge into a non-empty output directory, keeping existing files')
+    .option('--keep-newer', 'merge into a non-empty output directory, replacing files older than their archived mtime')
+    .option('--dry-run', 'preview which files a merge would add, replace or keep without extracting')
+    .option('--resume', 'continue an interrupted extraction, extracting only missing or incomplete files')
+    .option('--password', `prompt for the archive password (or set ${PASSWORD_ENV_VAR})`)
+    .option('--password-file <file>', 'read the archive password from a file')
     .action(async (archive, options) => {
-      const tools = detectTools();
-      
       try {
+        if (options.version !== undefined && options.until !== undefined) {
+          console.error('❌ --version and --until cannot be used together');
+          process.exit(1);
+        }
+        
+        const strategies: MergeStrategy[] = [];
+        if (options.overwrite) strategies.push('overwrite');
+        if (options.skipExisting) strategies.push('skip-existing');
+        if (options.keepNewer) strategies.push('keep-newer');
+        if (strategies.length > 1) {
+          console.error('❌ --overwrite, --skip-existing and --keep-newer cannot be used together');
+          process.exit(1);
+        }
+        if (options.dryRun && strategies.length === 0) {
+          console.error('❌ --dry-run previews a merge and needs --overwrite, --skip-existing or --keep-newer');
+          process.exit(1);
+        }
+        
+        // A resumed run takes its selection from the journal of the interrupted one
+        if (options.resume && (strategies.length > 0 || options.dryRun || options.version !== undefined ||
+          options.until !== undefined || options.include || options.exclude)) {
+          console.error('❌ --resume reuses the options of the interrupted run and cannot be combined with merge, ' +
+            'version or --include/--exclude options');
+          process.exit(1);
+        }
+        
+        if (options.version !== undefined) {
+          const version = parseInt(options.version, 10);
+          if (isNaN(version) || version < 1) {
+            console.error(`❌ Invalid version: ${options.version}`);
+            process.exit(1);
+          }
+          options.version = version;
+        }
+        
         // Handle -o flag usage
         if (options.output === true) {
           // -o flag was used without a value, try to use stored path
@@ -84,13 +220,164 @@ async function main(): Promise<void> {
           }
         }
         
-        await decompressArchive(archive, options, tools);
+        await decompressArchive(archive, { ...options, merge: strategies[0], password: await resolvePassword(options) });
       } catch (error) {
         console.error('Error during decompression:', error);
         process.exit(1);
       }
     });
   
+  // Versions subcommand
+  program
+    .command('versions')
+    .argument('<archive>', 'archive to inspect')
+    .description('List the versions of an archive with their dates and sizes')
+    .option('--password', `prompt for the archive password (or set ${PASSWORD_ENV_VAR})`)
+    .option('--password-file <file>', 'read the archive password from a file')
+    .action(async (archive: string, options: any) => {
+      try {
+        await showArchiveVersions(archive, await resolvePassword(options));
+      } catch (error) {
+        console.error(`❌ Error listing versions: ${(error as Error).message}`);
+        process.exit(1);
+      }
+    });
+  
+  // List subcommand
+  program
+    .command('list')
+    .argument('<archive>', 'archive to list')
+    .description('List the contents of an archive without extracting it')
+    .option('--json', 'print entries as JSON')
+    .option('--flat', 'print one path per line instead of a tree')
+    .option('--all-versions', 'list the entries of every version instead of the latest state')
+    .option('--match <globs...>', 'only list entries matching these gitignore-style globs')
+    .option('--min-size <size>', 'only list files of at least this size (e.g. 10M)')
+    .option('--max-size <size>', 'only list files of at most this size (e.g. 1G)')
+    .option('--after <date>', 'only list entries modified at or after this date')
+    .option('--before <date>', 'only list entries modified before this date')
+    .option('--password', `prompt for the archive password (or set ${PASSWORD_ENV_VAR})`)
+    .option('--password-file <file>', 'read the archive password from a file')
+    .action(async (archive: string, options: any) => {
+      try {
+        const listOptions: ListOptions = {
+          json: options.json,
+          flat: options.flat,
+          allVersions: options.allVersions,
+          match: options.match,
+          after: options.after,
+          before: options.before,
+          password: await resolvePassword(options)
+        };
+        
+        for (const [flag, value, key] of [['--min-size', options.minSize, 'minSize'], ['--max-size', options.maxSize, 'maxSize']] as const) {
+          if (value === undefined) {
+            continue;
+          }
+          const size = parseSize(value);
+          if (isNaN(size)) {
+            console.error(`❌ Invalid size for ${flag}: ${value}`);
+            process.exit(1);
+          }
+          listOptions[key] = size;
+        }
+        
+        for (const [flag, value] of [['--after', options.after], ['--before', options.before]]) {
+          if (value !== undefined && isNaN(new Date(value).getTime())) {
+            console.error(`❌ Invalid date for ${flag}: ${value}`);
+            process.exit(1);
+          }
+        }
+        
+        await listArchive(archive, listOptions);
+      } catch (error) {
+        console.error(`❌ Error listing archive: ${(error as Error).message}`);
+        process.exit(1);
+      }
+    });
+  
+  // Test subcommand
+  program
+    .command('test')
+    .argument('<archive>', 'archive to test, or the index or first volume of a split archive')
+    .description('Check the integrity of an archive without restoring it (exit codes: 0 pass, 2 corrupt, 3 missing metadata, 4 tool error)')
+    .option('--extract', 'extract into a temporary directory and compare the files with the embedded metadata.csv')
+    .option('--json', 'print the result as JSON')
+    .option('--password', `prompt for the archive password (or set ${PASSWORD_ENV_VAR})`)
+    .option('--password-file <file>', 'read the archive password from a file')
+    .action(async (archive: string, options: any) => {
+      try {
+        const result = await testArchive(archive, {
+          extract: options.extract,
+          json: options.json,
+          password: await resolvePassword(options)
+        });
+        process.exit(TEST_EXIT_CODES[result.status]);
+      } catch (error) {
+        console.error(`❌ Error testing archive: ${(error as Error).message}`);
+        process.exit(TEST_EXIT_CODES['tool-error']);
+      }
+    });
+  
+  // Verify subcommand
+  program
+    .command('verify')
+    .description('Verify an extracted folder against its metadata.csv')
+    .argument('[folder]', 'folder to verify (optional - uses stored path from previous info command)')
+    .option('--no-hash', 'skip content hash comparison')
+    .option('--tolerance <ms>', 'allowed modification time difference in milliseconds', '0')
+    .action(async (folder: string | undefined, options: any) => {
+      const resolvedPath = await resolveFolderPath(folder);
+      if (!resolvedPath) {
+        process.exit(1);
+      }
+      
+      try {
+        const tolerance = parseInt(options.tolerance, 10);
+        if (isNaN(tolerance) || tolerance < 0) {
+          console.error(`❌ Invalid tolerance: ${options.tolerance}`);
+          process.exit(1);
+        }
+        
+        const result = await verifyFolder(resolvedPath, { hash: options.hash, tolerance });
+        if (hasMismatches(result)) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error('Verification failed:', error);
+        process.exit(1);
+      }
+    });
+  
+  // Restore-times subcommand
+  program
+    .command('restore-times')
+    .description('Re-apply timestamps from a metadata.csv to a folder (e.g. after rsync or git checkout)')
+    .argument('[folder]', 'folder to update (optional - uses stored path from previous info command)')
+    .option('--metadata <csv>', 'metadata file to apply (default: metadata.csv in the folder)')
+    .option('--strip <n>', 'remove this many leading path components from metadata paths', '0')
+    .option('--prefix <path>', 'prepend this path to metadata paths (after --strip)')
+    .option('--dry-run', 'report what would change without touching any file')
+    .action(async (folder: string | undefined, options: any) => {
+      const resolvedPath = await resolveFolderPath(folder);
+      if (!resolvedPath) {
+        process.exit(1);
+      }
+      
+      try {
+        const strip = parseInt(options.strip, 10);
+        if (isNaN(strip) || strip < 0) {
+          console.error(`❌ Invalid --strip value: ${options.strip}`);
+          process.exit(1);
+        }
+        
+        await restoreTimes(resolvedPath, { metadata: options.metadata, strip, prefix: options.prefix, dryRun: options.dryRun });
+      } catch (error) {
+        console.error(`❌ Error restoring timestamps: ${(error as Error).message}`);
+        process.exit(1);
+      }
+    });
+  
   // Clean subcommand
   program
     .command('clean')
@@ -100,6 +387,7 @@ async function main(): Promise<void> {
     .option('--include-careful', 'include careful patterns like .vscode, .cache (requires confirmation)')
     .option('--include-dangerous', 'include dangerous patterns like .git (requires explicit confirmation)')
     .option('--patterns <patterns...>', 'specify exact patterns to clean (comma-separated)')
+    .option('--exclude <patterns...>', 'gitignore-style patterns to never clean (in addition to .paqtignore)')
     .action(async (folder: string | undefined, options: any) => {
       const resolvedPath = await resolveFolderPath(folder);
       if (!resolvedPath) {
@@ -123,7 +411,8 @@ async function main(): Promise<void> {
           dryRun: options.dryRun,
           includeCareful: options.includeCareful,
           includeDangerous: options.includeDangerous,
-          patterns
+          patterns,
+          exclude: options.exclude
         };
         
         await cleanDirectories(resolvedPath, cleanOptions);
@@ -138,14 +427,15 @@ async function main(): Promise<void> {
     .command('info')
     .description('Show directory statistics (size, file/folder counts, largest items)')
     .argument('[folder]', 'folder to analyze (optional - uses stored path from previous info command)')
-    .action(async (folder?: string) => {
+    .option('--exclude <patterns...>', 'gitignore-style patterns to exclude from totals (in addition to .paqtignore)')
+    .action(async (folder: string | undefined, options: InfoOptions) => {
       const resolvedPath = await resolveFolderPath(folder);
       if (!resolvedPath) {
         process.exit(1);
       }
       
       try {
-        await getDirectoryInfo(resolvedPath);
+        await getDirectoryInfo(resolvedPath, options);
       } catch (error) {
         console.error('Info failed:', error);
         process.exit(1);
@@ -0,0 +1,119 @@
+import { CompressionMethod, CompressionSettings, FileMetadata } from './types.js';
+
+/**
+ * Compression method selection and the compression settings property
+ * Methods follow zpaq's 0-5 scale; other backends map them to their own levels
+ */
+
+/** Method used when none is given */
+export const DEFAULT_COMPRESSION_METHOD: CompressionMethod = 5;
+
+/** Name of the metadata.csv property that records the compression settings */
+export const COMPRESSION_PROPERTY = 'compression';
+
+/** Largest zpaq block size (2^11 MB) */
+export const MAX_BLOCK_SIZE = 11;
+
+/** Extensions of formats that are already compressed and gain almost nothing from higher methods */
+const INCOMPRESSIBLE_EXTENSIONS = new Set([
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'avif',
+  'mp3', 'aac', 'm4a', 'ogg', 'opus', 'flac',
+  'mp4', 'm4v', 'mkv', 'mov', 'avi', 'webm',
+  'zip', 'gz', 'tgz', 'bz2', 'xz', 'zst', '7z', 'rar', 'zpaq',
+  'jar', 'apk', 'docx', 'xlsx', 'pptx', 'pdf'
+]);
+
+/** Folder size thresholds for auto mode, largest first */
+const SIZE_THRESHOLDS: Array<{ minBytes: number; method: CompressionMethod }> = [
+  { minBytes: 50 * 1024 ** 3, method: 1 },
+  { minBytes: 5 * 1024 ** 3, method: 2 },
+  { minBytes: 500 * 1024 ** 2, method: 3 },
+  { minBytes: 50 * 1024 ** 2, method: 4 }
+];
+
+/**
+ * Check whether a value is a valid zpaq compression method
+ */
+export function isCompressionMethod(value: number): value is CompressionMethod {
+  return Number.isInteger(value) && value >= 0 && value <= 5;
+}
+
+/**
+ * Summarize the total size and the share of already-compressed bytes in a folder's metadata
+ */
+function analyzeContentMix(metadata: FileMetadata[]): { totalBytes: number; incompressibleRatio: number } {
+  let totalBytes = 0;
+  let incompressibleBytes = 0;
+
+  for (const entry of metadata) {
+    if (entry.type !== 'file' || !entry.size) {
+      continue;
+    }
+    totalBytes += entry.size;
+    const extension = entry.path.slice(entry.path.lastIndexOf('.') + 1).toLowerCase();
+    if (entry.path.includes('.') && INCOMPRESSIBLE_EXTENSIONS.has(extension)) {
+      incompressibleBytes += entry.size;
+    }
+  }
+
+  return { totalBytes, incompressibleRatio: totalBytes > 0 ? incompressibleBytes / totalBytes : 0 };
+}
+
+/**
+ * Pick a compression method from the folder size and content mix
+ * Large folders get faster methods; folders dominated by media and archives
+ * are stored with method 1 since their content is already compressed
+ */
+export function chooseCompressionMethod(metadata: FileMetadata[]): { method: CompressionMethod; reason: string } {
+  const { totalBytes, incompressibleRatio } = analyzeContentMix(metadata);
+  const sizeText = `${(totalBytes / (1024 * 1024)).toFixed(0)} MB`;
+  const mixText = `${Math.round(incompressibleRatio * 100)}% already compressed`;
+
+  if (incompressibleRatio >= 0.7) {
+    return { method: 1, reason: `${sizeText}, ${mixText}` };
+  }
+
+  let method = SIZE_THRESHOLDS.find(threshold => totalBytes >= threshold.minBytes)?.method ?? DEFAULT_COMPRESSION_METHOD;
+  if (incompressibleRatio >= 0.3 && method > 1) {
+    method = (method - 1) as CompressionMethod;
+  }
+
+  return { method, reason: `${sizeText}, ${mixText}` };
+}
+
+/**
+ * Format compression settings as a metadata.csv property value (e.g. "method=3 threads=4 auto")
+ */
+export function formatCompressionSettings(settings: CompressionSettings): string {
+  return [
+    `method=${settings.method}`,
+    ...(settings.threads !== undefined ? [`threads=${settings.threads}`] : []),
+    ...(settings.blockSize !== undefined ? [`block-size=${settings.blockSize}`] : []),
+    ...(settings.auto ? ['auto'] : [])
+  ].join(' ');
+}
+
+/**
+ * Parse a compression property value written by formatCompressionSettings
+ * Returns null when the value has no valid method
+ */
+export function parseCompressionSettings(value: string): CompressionSettings | null {
+  const fields = new Map(value.split(/\s+/).filter(Boolean).map(field => {
+    const [key, text] = field.split('=');
+    return [key, text] as const;
+  }));
+
+  const method = parseInt(fields.get('method') ?? '', 10);
+  if (!isCompressionMethod(method)) {
+    return null;
+  }
+
+  const threads = parseInt(fields.get('threads') ?? '', 10);
+  const blockSize = parseInt(fields.get('block-size') ?? '', 10);
+  return {
+    method,
+    threads: isNaN(threads) ? undefined : threads,
+    blockSize: isNaN(blockSize) ? undefined : blockSize,
+    auto: fields.has('auto')
+  };
+}
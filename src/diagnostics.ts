@@ -0,0 +1,302 @@
+import { promises as fs } from 'fs';
+import { join, relative } from 'path';
+import { DirectoryAnalysis, IssueSeverity, ScanIssue, ScanIssueCode, ScanReport } from './types.js';
+import { toISOString } from './utils.js';
+import { formatMode } from './metadata.js';
+import { ALL_PATTERNS } from './patterns.js';
+
+/** Maximum number of entries visited when analyzing a problematic directory */
+const ANALYSIS_ENTRY_LIMIT = 10000;
+
+/**
+ * Problems collected while walking a folder
+ */
+export interface ScanDiagnostics {
+  skippedPaths: string[];
+  issues: ScanIssue[];
+  analyses: DirectoryAnalysis[];
+}
+
+/**
+ * Severity and suggested fix for every issue code
+ */
+const ISSUE_DEFINITIONS: Record<ScanIssueCode, { severity: IssueSeverity; suggestedFix: string; skipsPath: boolean }> = {
+  DIRECTORY_CYCLE: {
+    severity: 'warning',
+    suggestedFix: 'Remove the bind mount or link that points back into the tree (find mount points with: findmnt -R <folder>)',
+    skipsPath: true
+  },
+  DEEP_NESTING: {
+    severity: 'error',
+    suggestedFix: 'Check for generated folder structures that nest recursively and remove or exclude them in .paqtignore',
+    skipsPath: true
+  },
+  PERMISSION_DENIED: {
+    severity: 'error',
+    suggestedFix: 'Check file ownership and permissions (fix with: chmod -R u+rX <folder>) or run with appropriate privileges',
+    skipsPath: true
+  },
+  DIRECTORY_READ_ERROR: {
+    severity: 'error',
+    suggestedFix: 'Check directory permissions and disk integrity',
+    skipsPath: true
+  },
+  FILE_ACCESS_ERROR: {
+    severity: 'error',
+    suggestedFix: 'Check file permissions or whether the entry was removed during the scan',
+    skipsPath: true
+  },
+  SPECIAL_FILE: {
+    severity: 'info',
+    suggestedFix: 'Special files are recorded in metadata only; use decompress --special-files to recreate FIFOs and (as root) device nodes',
+    skipsPath: false
+  }
+};
+
+/**
+ * Create an empty diagnostics collector
+ */
+export function createDiagnostics(): ScanDiagnostics {
+  return { skippedPaths: [], issues: [], analyses: [] };
+}
+
+/**
+ * Record an issue; issues that skip their path are also added to the skipped paths
+ */
+export function recordIssue(
+  diagnostics: ScanDiagnostics,
+  code: ScanIssueCode,
+  path: string,
+  message: string,
+  relatedPath?: string
+): ScanIssue {
+  const issue: ScanIssue = {
+    code,
+    severity: ISSUE_DEFINITIONS[code].severity,
+    path,
+    message,
+    suggestedFix: ISSUE_DEFINITIONS[code].suggestedFix,
+    ...(relatedPath !== undefined ? { relatedPath } : {})
+  };
+
+  if (ISSUE_DEFINITIONS[code].skipsPath) {
+    diagnostics.skippedPaths.push(path);
+  }
+  diagnostics.issues.push(issue);
+  return issue;
+}
+
+/**
+ * Analyze a problematic directory with a bounded walk
+ * Collects counts, the deepest paths, suspicious pattern matches and symlinks
+ */
+export async function analyzeDirectory(dirPath: string, basePath: string, issueCode: ScanIssueCode): Promise<DirectoryAnalysis> {
+  const analysis: DirectoryAnalysis = {
+    path: relative(basePath, dirPath),
+    issueCode,
+    accessible: true,
+    directoryCount: 0,
+    fileCount: 0,
+    truncated: false,
+    deepestPaths: [],
+    patternMatches: [],
+    symlinks: []
+  };
+
+  try {
+    const stats = await fs.lstat(dirPath);
+    analysis.modifiedTime = toISOString(stats.mtime);
+    analysis.permissions = { mode: formatMode(stats.mode), uid: stats.uid, gid: stats.gid };
+  } catch (error) {
+    analysis.accessible = false;
+    analysis.error = (error as Error).message;
+    return analysis;
+  }
+
+  const matches = new Map<string, { count: number; examples: string[] }>();
+  const depths: Array<{ depth: number; path: string }> = [];
+  const queue: string[] = [dirPath];
+  let visited = 0;
+
+  while (queue.length > 0) {
+    const currentPath = queue.pop()!;
+    let items;
+    try {
+      items = await fs.readdir(currentPath, { withFileTypes: true });
+    } catch (error) {
+      if (currentPath === dirPath) {
+        analysis.accessible = false;
+        analysis.error = (error as Error).message;
+      }
+      continue;
+    }
+
+    for (const item of items) {
+      if (++visited > ANALYSIS_ENTRY_LIMIT) {
+        analysis.truncated = true;
+        queue.length = 0;
+        break;
+      }
+
+      const fullPath = join(currentPath, item.name);
+      const relativePath = relative(basePath, fullPath);
+
+      if (item.isSymbolicLink()) {
+        const target = await fs.readlink(fullPath).catch(() => '');
+        const broken = await fs.stat(fullPath).then(() => false, () => true);
+        analysis.symlinks.push({ path: relativePath, target, broken });
+      } else if (item.isDirectory()) {
+        analysis.directoryCount++;
+        depths.push({ depth: relativePath.split('/').length, path: relativePath });
+        queue.push(fullPath);
+
+        for (const pattern of ALL_PATTERNS) {
+          if (item.name.includes(pattern.pattern)) {
+            const match = matches.get(pattern.pattern) ?? { count: 0, examples: [] };
+            match.count++;
+            if (match.examples.length < 3) {
+              match.examples.push(relativePath);
+            }
+            matches.set(pattern.pattern, match);
+          }
+        }
+      } else if (item.isFile()) {
+        analysis.fileCount++;
+      }
+    }
+  }
+
+  analysis.deepestPaths = depths.sort((a, b) => b.depth - a.depth).slice(0, 5);
+  analysis.patternMatches = ALL_PATTERNS
+    .filter(pattern => matches.has(pattern.pattern))
+    .map(pattern => ({
+      pattern: pattern.pattern,
+      category: pattern.category,
+      description: pattern.description,
+      ...matches.get(pattern.pattern)!
+    }));
+
+  return analysis;
+}
+
+/**
+ * Record an issue and attach a detailed analysis of the affected directory
+ */
+export async function recordIssueWithAnalysis(
+  diagnostics: ScanDiagnostics,
+  code: ScanIssueCode,
+  dirPath: string,
+  basePath: string,
+  message: string,
+  relatedPath?: string
+): Promise<void> {
+  recordIssue(diagnostics, code, relative(basePath, dirPath), message, relatedPath);
+  diagnostics.analyses.push(await analyzeDirectory(dirPath, basePath, code));
+}
+
+/**
+ * Format a directory analysis for the terminal
+ */
+function formatAnalysis(analysis: DirectoryAnalysis): string[] {
+  const lines: string[] = [];
+
+  lines.push(`\n🔍 Detailed analysis of problematic directory: '${analysis.path}'`);
+  if (!analysis.accessible && analysis.modifiedTime === undefined) {
+    lines.push(`   ❌ Cannot access: ${analysis.error}`);
+    return lines;
+  }
+
+  if (analysis.modifiedTime) {
+    lines.push(`   📅 Modified: ${analysis.modifiedTime}`);
+  }
+
+  if (analysis.issueCode === 'DEEP_NESTING') {
+    if (analysis.deepestPaths.length > 0) {
+      lines.push(`   📊 Top ${analysis.deepestPaths.length} deepest paths:`);
+      analysis.deepestPaths.forEach((entry, index) => {
+        lines.push(`      ${index + 1}. Depth ${entry.depth}: ${entry.path}`);
+      });
+    }
+
+    lines.push(`\n   📊 Contents summary${analysis.truncated ? ` (first ${ANALYSIS_ENTRY_LIMIT} entries)` : ''}:`);
+    lines.push(`      Directories: ${analysis.directoryCount}`);
+    lines.push(`      Files: ${analysis.fileCount}`);
+
+    if (analysis.patternMatches.length > 0) {
+      lines.push(`\n   🔍 Common problematic patterns:`);
+      for (const match of analysis.patternMatches) {
+        const categoryIcon = match.category === 'safe' ? '🟢' : match.category === 'careful' ? '🟡' : '🔴';
+        lines.push(`      ${categoryIcon} Found ${match.count} ${match.description} directories (${match.pattern})`);
+        match.examples.forEach(example => lines.push(`         📁 ${example}`));
+      }
+    }
+  }
+
+  if (analysis.issueCode === 'DIRECTORY_CYCLE') {
+    if (analysis.symlinks.length > 0) {
+      lines.push(`   🔗 Symlinks:`);
+      analysis.symlinks.slice(0, 5).forEach((link, index) => {
+        lines.push(`      ${index + 1}. ${link.path} -> ${link.target}${link.broken ? ' (broken)' : ''}`);
+      });
+    } else {
+      lines.push(`   ✅ No symlinks found`);
+    }
+  }
+
+  if (analysis.issueCode === 'PERMISSION_DENIED' || analysis.issueCode === 'DIRECTORY_READ_ERROR') {
+    if (analysis.permissions) {
+      const { mode, uid, gid } = analysis.permissions;
+      const processUid = typeof process.getuid === 'function' ? process.getuid() : undefined;
+      lines.push(`   🔒 Mode ${mode}, owner ${uid}:${gid}${processUid !== undefined ? ` (running as uid ${processUid})` : ''}`);
+    }
+    if (analysis.error) {
+      lines.push(`   ❌ ${analysis.error}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Print scan issues, suggested fixes and detailed analyses
+ */
+export function printScanIssues(diagnostics: ScanDiagnostics, scannedCount: number): void {
+  if (diagnostics.issues.length === 0) {
+    return;
+  }
+
+  console.log(`\n⚠️  Issues encountered during scan (${diagnostics.skippedPaths.length} paths skipped):`);
+  console.log('═'.repeat(80));
+
+  diagnostics.issues.forEach((issue, index) => {
+    console.log(`${index + 1}. [${issue.severity.toUpperCase()}] ${issue.code}: ${issue.message}`);
+  });
+
+  console.log('═'.repeat(80));
+  console.log('\n💡 Suggested fixes:');
+
+  const codes = Array.from(new Set(diagnostics.issues.map(issue => issue.code)));
+  for (const code of codes) {
+    console.log(`   • ${code}: ${ISSUE_DEFINITIONS[code].suggestedFix}`);
+  }
+
+  console.log(`\n📁 Successfully scanned ${scannedCount} entries, skipped ${diagnostics.skippedPaths.length} problematic paths`);
+
+  // Display detailed analysis
+  if (diagnostics.analyses.length > 0) {
+    console.log('\n' + '═'.repeat(80));
+    console.log('📋 DETAILED DIAGNOSTIC ANALYSIS');
+    console.log('═'.repeat(80));
+    diagnostics.analyses.flatMap(formatAnalysis).forEach(line => console.log(line));
+    console.log('═'.repeat(80));
+  }
+
+  console.log('');
+}
+
+/**
+ * Write a scan report as JSON
+ */
+export async function writeScanReport(reportPath: string, report: ScanReport): Promise<void> {
+  await fs.writeFile(reportPath, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+}
@@ -0,0 +1,277 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+/**
+ * Gitignore-style exclusion rules (.paqtignore and --exclude)
+ */
+
+/** Name of the ignore file read from the root of a folder */
+export const IGNORE_FILE = '.paqtignore';
+
+/** A single parsed ignore rule */
+export interface IgnoreRule {
+  pattern: string; // original pattern text
+  negated: boolean; // `!pattern` re-includes a path
+  directoryOnly: boolean; // `pattern/` only matches directories
+  anchored: boolean; // contains a slash, so it is relative to the folder root
+  regex: RegExp;
+}
+
+/** Matcher built from an ordered list of rules (last matching rule wins) */
+export interface IgnoreMatcher {
+  rules: IgnoreRule[];
+  isIgnored(relativePath: string, isDirectory: boolean): boolean;
+}
+
+/**
+ * Convert a gitignore glob to a regular expression source
+ */
+function globToRegexSource(glob: string): string {
+  let source = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0;
+      const followedBySlash = glob[i + 2] === '/';
+      const atEnd = i + 2 === glob.length;
+
+      if (atStart && followedBySlash) {
+        // "**/x" matches x in any directory
+        source += '(?:.*/)?';
+        i += 3;
+      } else if (atEnd) {
+        // "x/**" matches everything inside x
+        source += '.*';
+        i += 2;
+      } else if (followedBySlash) {
+        // "a/**/b" matches zero or more directories between a and b
+        source += '(?:.*/)?';
+        i += 3;
+      } else {
+        source += '[^/]*';
+        i += 2;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+      i++;
+    } else if (char === '?') {
+      source += '[^/]';
+      i++;
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+        i++;
+      } else {
+        let range = glob.slice(i + 1, close);
+        if (range.startsWith('!')) {
+          range = '^' + range.slice(1);
+        }
+        source += `[${range.replace(/\\/g, '\\\\')}]`;
+        i = close + 1;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i += 2;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i++;
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Parse a single ignore line into a rule, or null for blanks and comments
+ */
+export function parseIgnoreRule(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (pattern === '' || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const original = pattern;
+  let negated = false;
+  if (pattern.startsWith('!')) {
+    negated = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  let directoryOnly = false;
+  if (pattern.endsWith('/')) {
+    directoryOnly = true;
+    pattern = pattern.slice(0, -1);
+  }
+
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) {
+    pattern = pattern.slice(1);
+  }
+
+  if (pattern === '') {
+    return null;
+  }
+
+  const body = globToRegexSource(pattern);
+  const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+
+  return { pattern: original, negated, directoryOnly, anchored, regex };
+}
+
+/**
+ * Parse ignore file content (or --exclude patterns) into rules
+ */
+export function parseIgnoreRules(lines: string[]): IgnoreRule[] {
+  return lines
+    .map(parseIgnoreRule)
+    .filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+/**
+ * Create a matcher from ordered rules
+ * Only the path itself is tested; callers walking a tree prune ignored directories,
+ * which gives gitignore semantics where a file inside an excluded directory cannot be re-included
+ */
+export function createIgnoreMatcher(rules: IgnoreRule[]): IgnoreMatcher {
+  return {
+    rules,
+    isIgnored(relativePath: string, isDirectory: boolean): boolean {
+      let ignored = false;
+      for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) {
+          continue;
+        }
+        if (rule.regex.test(relativePath)) {
+          ignored = !rule.negated;
+        }
+      }
+      return ignored;
+    }
+  };
+}
+
+/**
+ * Check whether a path or any of its parent directories is ignored
+ * Use this for paths that were not found by walking the tree from its root
+ */
+export function isPathIgnored(matcher: IgnoreMatcher, relativePath: string, isDirectory: boolean): boolean {
+  const parts = relativePath.split('/');
+  for (let i = 1; i < parts.length; i++) {
+    if (matcher.isIgnored(parts.slice(0, i).join('/'), true)) {
+      return true;
+    }
+  }
+  return matcher.isIgnored(relativePath, isDirectory);
+}
+
+/**
+ * Load .paqtignore from a folder root and append extra --exclude patterns
+ */
+export async function loadIgnoreMatcher(folderPath: string, extraPatterns: string[] = []): Promise<IgnoreMatcher> {
+  let lines: string[] = [];
+  try {
+    const content = await fs.readFile(join(folderPath, IGNORE_FILE), 'utf-8');
+    lines = content.split(/\r?\n/);
+  } catch {
+    // No ignore file, only --exclude patterns apply
+  }
+
+  return createIgnoreMatcher(parseIgnoreRules([...lines, ...extraPatterns]));
+}
+
+/**
+ * Build an archiver pattern matching one literal path (e.g. a special file to exclude)
+ * Archivers without escapes match the wildcards `*` and `?` in the path with `?`; other paths
+ * that pattern also matches are returned, since excluding them would silently drop them
+ */
+export function toLiteralArchivePattern(
+  path: string,
+  otherPaths: string[],
+  escapeWildcards?: (path: string) => string
+): { pattern: string; collisions: string[] } {
+  if (escapeWildcards) {
+    return { pattern: escapeWildcards(path), collisions: [] };
+  }
+  if (!/[*?]/.test(path)) {
+    return { pattern: path, collisions: [] };
+  }
+
+  const matches = (other: string) => other.length === path.length &&
+    path.split('').every((char, index) => char === '*' || char === '?' || char === other[index]);
+  return { pattern: path.replace(/[*?]/g, '?'), collisions: otherPaths.filter(other => other !== path && matches(other)) };
+}
+
+/**
+ * Check whether the archiver pattern of a glob matches only what the glob matches
+ * Archiver wildcards also match `/`. That is harmless for `**` segments and for one `*` in the last segment
+ * at its end (`docs/tmp*` only reaches into ignored directories) or at its start where any depth is meant
+ * (`*.log`, also after a `**` segment); any other wildcard reaches into subdirectories (`docs/*.md` would match docs/sub/keep.md)
+ */
+function isExactGlob(glob: string, anchored: boolean): boolean {
+  const segments = glob.split('/');
+  return segments.every((segment, index) => {
+    const last = index === segments.length - 1;
+    const anyDepth = (!anchored && segments.length === 1) || segments[index - 1] === '**';
+    return !/[*?]/.test(segment) ||
+      segment === '**' ||
+      (last && /^[^*?]*\*$/.test(segment)) ||
+      (last && anyDepth && /^\*[^*?]*$/.test(segment));
+  });
+}
+
+/**
+ * Translate ignore rules into archiver path patterns (for exclusion or as extraction filters)
+ * for an archive rooted at `rootName`
+ * Patterns only use `*` (which also matches `/`, as in zpaq and tar) and `?`, so negations, character
+ * classes and escapes cannot be expressed and are reported back to the caller. So are rules whose patterns
+ * would match more than the rule (wildcards reaching into subdirectories, directory-only rules also
+ * matching files), unless `superset` allows that (e.g. for extraction filters narrowed by metadata later)
+ */
+export function toArchivePatterns(
+  matcher: IgnoreMatcher,
+  rootName: string,
+  superset: boolean = false
+): { patterns: string[]; unsupported: string[] } {
+  const patterns: string[] = [];
+  const unsupported: string[] = [];
+
+  for (const rule of matcher.rules) {
+    let glob = rule.pattern;
+    if (rule.negated) {
+      unsupported.push(rule.pattern);
+      continue;
+    }
+
+    glob = glob.replace(/^\\/, '').replace(/\/$/, '').replace(/^\//, '');
+    let anchored = rule.anchored;
+    if (glob.startsWith('**/')) {
+      glob = glob.slice(3);
+      anchored = false;
+    }
+    if (/[[\\]/.test(glob) || (!superset && (rule.directoryOnly || !isExactGlob(glob, anchored)))) {
+      unsupported.push(rule.pattern);
+      continue;
+    }
+
+    // "a/**/b" also matches "a/b", which zpaq's "a/*/b" would not
+    const globs = glob.includes('/**/')
+      ? [glob.replace(/\/\*\*\//g, '/'), glob.replace(/\/\*\*\//g, '/*/')]
+      : [glob];
+
+    for (const variant of globs) {
+      const zpaqGlob = variant.replace(/\*\*/g, '*');
+      patterns.push(`${rootName}/${zpaqGlob}`);
+      if (!anchored) {
+        patterns.push(`${rootName}/*/${zpaqGlob}`);
+      }
+    }
+  }
+
+  return { patterns: Array.from(new Set(patterns)), unsupported };
+}
@@ -2,6 +2,10 @@ import { existsSync, statSync, writeFileSync } from 'fs';
 import { execSync } from 'child_process';
 import { resolve } from 'path';
 import { homedir } from 'os';
+import { InfoOptions } from './types.js';
+import { IgnoreMatcher, loadIgnoreMatcher } from './ignore.js';
+import { collectFolderMetadata } from './scanner.js';
+import { formatBytes } from './utils.js';
 
 /**
  * Interface for directory statistics
@@ -14,17 +18,6 @@ interface DirectoryStats {
   largestFiles: Array<{ path: string; size: number; }>;
 }
 
-/**
- * Format bytes to human readable format
- */
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B';
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-}
-
 /**
  * Get directory size in bytes
  */
@@ -153,10 +146,42 @@ async function getLargestFiles(dirPath: string): Promise<Array<{ path: string; s
   }
 }
 
+/**
+ * Compute statistics in Node from a walk that honours ignore rules
+ * Sizes are apparent file sizes rather than du's disk usage
+ */
+async function getFilteredStats(dirPath: string, ignore: IgnoreMatcher): Promise<DirectoryStats> {
+  const entries = await collectFolderMetadata(dirPath, ignore);
+  const files = entries.filter(entry => entry.type === 'file');
+  const topLevelSizes = new Map<string, number>();
+  
+  // Files directly in the folder belong to no top-level directory
+  for (const file of files) {
+    const [topLevel, ...rest] = file.path.split('/');
+    if (rest.length > 0) {
+      topLevelSizes.set(topLevel, (topLevelSizes.get(topLevel) ?? 0) + (file.size ?? 0));
+    }
+  }
+  
+  return {
+    totalSize: files.reduce((sum, file) => sum + (file.size ?? 0), 0),
+    fileCount: files.length,
+    dirCount: entries.filter(entry => entry.type === 'directory').length,
+    largestDirs: Array.from(topLevelSizes.entries())
+      .map(([path, size]) => ({ path, size }))
+      .sort((a, b) => b.size - a.size)
+      .slice(0, 10),
+    largestFiles: files
+      .map(file => ({ path: file.path, size: file.size ?? 0 }))
+      .sort((a, b) => b.size - a.size)
+      .slice(0, 10)
+  };
+}
+
 /**
  * Get comprehensive directory information
  */
-export async function getDirectoryInfo(dirPath: string): Promise<void> {
+export async function getDirectoryInfo(dirPath: string, options: InfoOptions = {}): Promise<void> {
   const fullPath = resolve(dirPath);
   
   // Check if directory exists
@@ -175,13 +200,29 @@ export async function getDirectoryInfo(dirPath: string): Promise<void> {
   
   console.log('🔍 Analyzing directory...');
   
-  // Get all statistics in parallel for better performance
-  const [totalSize, counts, largestDirs, largestFiles] = await Promise.all([
-    getDirectorySize(fullPath),
-    getCounts(fullPath),
-    getLargestDirectories(fullPath),
-    getLargestFiles(fullPath)
-  ]);
+  const ignore = await loadIgnoreMatcher(fullPath, options.exclude);
+  let totalSize: number;
+  let counts: { files: number; dirs: number };
+  let largestDirs: Array<{ path: string; size: number; }>;
+  let largestFiles: Array<{ path: string; size: number; }>;
+  
+  if (ignore.rules.length > 0) {
+    // du/find cannot honour gitignore syntax, so walk the tree in Node instead
+    console.log(`   Excluding paths matching ${ignore.rules.length} ignore rules`);
+    const stats = await getFilteredStats(fullPath, ignore);
+    totalSize = stats.totalSize;
+    counts = { files: stats.fileCount, dirs: stats.dirCount };
+    largestDirs = stats.largestDirs;
+    largestFiles = stats.largestFiles;
+  } else {
+    // Get all statistics in parallel for better performance
+    [totalSize, counts, largestDirs, largestFiles] = await Promise.all([
+      getDirectorySize(fullPath),
+      getCounts(fullPath),
+      getLargestDirectories(fullPath),
+      getLargestFiles(fullPath)
+    ]);
+  }
   
   console.log('\n📈 Summary Statistics:');
   console.log(`   💾 Total size: ${formatBytes(totalSize)}`);
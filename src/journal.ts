@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ExtractionJournal, FileMetadata } from './types.js';
+import { hashFile } from './metadata.js';
+import { toISOString } from './utils.js';
+
+/**
+ * Extraction journal, so an interrupted `decompress` can be continued with `--resume`
+ */
+
+/** Journal file written into the output directory while an extraction is running */
+export const EXTRACTION_JOURNAL = '.paqt-journal.json';
+
+/** Version of the journal layout */
+const JOURNAL_VERSION = 1;
+
+/** Files of a previous run sorted by whether they can be kept */
+export interface ExtractedFilesCheck {
+  complete: number;
+  missing: string[];
+  incomplete: string[]; // present but with a different type, size or hash
+}
+
+/**
+ * Record an extraction that is about to start
+ */
+export async function writeExtractionJournal(
+  outputPath: string,
+  journal: Omit<ExtractionJournal, 'version' | 'startedAt'>
+): Promise<void> {
+  const content: ExtractionJournal = { version: JOURNAL_VERSION, startedAt: toISOString(new Date()), ...journal };
+  await fs.writeFile(join(outputPath, EXTRACTION_JOURNAL), JSON.stringify(content, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Read the journal of an unfinished extraction, or null when there is none
+ */
+export async function readExtractionJournal(outputPath: string): Promise<ExtractionJournal | null> {
+  const journalPath = join(outputPath, EXTRACTION_JOURNAL);
+  let content: string;
+  try {
+    content = await fs.readFile(journalPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const journal: ExtractionJournal = JSON.parse(content);
+  if (journal.version !== JOURNAL_VERSION) {
+    throw new Error(`Unsupported extraction journal ${journalPath} (version ${journal.version})`);
+  }
+  return journal;
+}
+
+/**
+ * Remove the journal once the extraction and timestamp restoration have finished
+ */
+export async function removeExtractionJournal(outputPath: string): Promise<void> {
+  await fs.rm(join(outputPath, EXTRACTION_JOURNAL), { force: true });
+}
+
+/**
+ * Compare files left by an interrupted extraction with their metadata
+ * A file is complete when it has the recorded size and, if metadata has one, the recorded hash
+ */
+export async function checkExtractedFiles(folderPath: string, files: FileMetadata[]): Promise<ExtractedFilesCheck> {
+  const check: ExtractedFilesCheck = { complete: 0, missing: [], incomplete: [] };
+
+  for (const entry of files) {
+    const filePath = join(folderPath, entry.path);
+    const stats = await fs.lstat(filePath).catch(() => null);
+    if (!stats) {
+      check.missing.push(entry.path);
+    } else if (!stats.isFile() ||
+      (entry.size !== undefined && stats.size !== entry.size) ||
+      (entry.hash && await hashFile(filePath) !== entry.hash)) {
+      check.incomplete.push(entry.path);
+    } else {
+      check.complete++;
+    }
+  }
+
+  return check;
+}
@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs';
+import { resolve } from 'path';
+import { ArchiveBackend, ArchiveEntry, ArchiveInput, ArchiveRoot, ListOptions, ListRequest } from './types.js';
+import { createIgnoreMatcher, parseIgnoreRules } from './ignore.js';
+import { resolveArchiveBackend, runListing } from './backends/index.js';
+import { formatBytes, shellQuote } from './utils.js';
+import { rootsFromMetadataPaths } from './manifest.js';
+
+/** Node of the tree view */
+interface TreeNode {
+  name: string;
+  entry?: ArchiveEntry;
+  children: Map<string, TreeNode>;
+}
+
+/**
+ * Read the entries of an archive (latest state, or every version with `allVersions`)
+ */
+export function readArchiveEntries(
+  backend: ArchiveBackend,
+  archivePath: string,
+  allVersions: boolean = false,
+  password?: string
+): ArchiveEntry[] {
+  const output = runListing(backend.listCommand({ archivePath, allVersions, password }), password);
+  return backend.parseListing(output, allVersions);
+}
+
+/**
+ * Build the list command for an archive; the volumes of a split archive are piped into archivers that read stdin
+ */
+function buildListCommand(backend: ArchiveBackend, archive: ArchiveInput, request: Omit<ListRequest, 'archivePath'>): string {
+  if (backend.extractsFromStdin && archive.files.length > 1) {
+    return `cat ${archive.files.map(file => shellQuote(file)).join(' ')} | ${backend.listCommand({ ...request, archivePath: '-' })}`;
+  }
+  return backend.listCommand({ ...request, archivePath: archive.path });
+}
+
+/**
+ * Find the folders an archive holds and the metadata.csv each restores from, sorted by name
+ * Only metadata.csv entries directly below a root (or staged below .paqt/) count;
+ * archivers that support it only list those entries
+ */
+export function findArchiveRoots(backend: ArchiveBackend, archive: ArchiveInput, password?: string): ArchiveRoot[] {
+  const output = runListing(buildListCommand(backend, archive, { match: '*metadata.csv', password }), password);
+  return rootsFromMetadataPaths(backend.parseListing(output, false).map(entry => entry.path));
+}
+
+/**
+ * Apply the glob, size and date filters of the list command
+ * Size filters only keep files; directories have no meaningful size in a listing
+ */
+export function filterArchiveEntries(entries: ArchiveEntry[], options: ListOptions): ArchiveEntry[] {
+  const matcher = options.match && options.match.length > 0 ? createIgnoreMatcher(parseIgnoreRules(options.match)) : null;
+  const after = options.after ? new Date(options.after).getTime() : undefined;
+  const before = options.before ? new Date(options.before).getTime() : undefined;
+  const filterSize = options.minSize !== undefined || options.maxSize !== undefined;
+
+  return entries.filter(entry => {
+    if (matcher && !matcher.isIgnored(entry.path, entry.type === 'directory')) {
+      return false;
+    }
+    if (filterSize && (entry.type !== 'file' ||
+      (options.minSize !== undefined && entry.size < options.minSize) ||
+      (options.maxSize !== undefined && entry.size > options.maxSize))) {
+      return false;
+    }
+    const time = new Date(entry.date).getTime();
+    if ((after !== undefined && time < after) || (before !== undefined && time >= before)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Format the size and date shown next to an entry
+ */
+function describeEntry(entry: ArchiveEntry): string {
+  const date = entry.date.slice(0, 19).replace('T', ' ');
+  return entry.type === 'directory' ? date : `${formatBytes(entry.size)}, ${date}`;
+}
+
+/**
+ * Build a tree from entry paths; ancestors of matching entries are added as plain nodes
+ */
+function buildTree(entries: ArchiveEntry[]): TreeNode {
+  const root: TreeNode = { name: '', children: new Map() };
+
+  for (const entry of entries) {
+    const parts = [...(entry.version !== undefined ? [`[version ${entry.version}]`] : []), ...entry.path.split('/')];
+    let node = root;
+    for (const part of parts) {
+      let child = node.children.get(part);
+      if (!child) {
+        child = { name: part, children: new Map() };
+        node.children.set(part, child);
+      }
+      node = child;
+    }
+    node.entry = entry;
+  }
+
+  return root;
+}
+
+/**
+ * Render tree nodes with box-drawing connectors
+ */
+function renderTree(node: TreeNode, prefix: string, lines: string[]): void {
+  const children = Array.from(node.children.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+  children.forEach((child, index) => {
+    const isLast = index === children.length - 1;
+    const isDirectory = child.children.size > 0 || child.entry?.type === 'directory';
+    const details = child.entry ? ` (${describeEntry(child.entry)})` : '';
+    lines.push(`${prefix}${isLast ? '└── ' : '├── '}${child.name}${isDirectory ? '/' : ''}${details}`);
+    renderTree(child, prefix + (isLast ? '    ' : '│   '), lines);
+  });
+}
+
+/**
+ * List the contents of an archive as a tree, a flat list or JSON
+ */
+export async function listArchive(archivePath: string, options: ListOptions): Promise<void> {
+  const resolvedArchivePath = resolve(archivePath);
+
+  try {
+    await fs.access(resolvedArchivePath);
+  } catch {
+    console.error(`Error: Archive ${resolvedArchivePath} does not exist`);
+    process.exit(1);
+  }
+
+  const backend = await resolveArchiveBackend(resolvedArchivePath, options.json);
+  if (options.allVersions && !backend.supportsVersions) {
+    console.error(`Error: --all-versions needs a versioned archive, ${backend.format} archives hold a single version`);
+    process.exit(1);
+  }
+
+  const entries = filterArchiveEntries(readArchiveEntries(backend, resolvedArchivePath, options.allVersions, options.password), options);
+
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  console.log(`\n📦 Contents of ${resolvedArchivePath}${options.allVersions ? ' (all versions)' : ''}:`);
+  console.log('═'.repeat(80));
+
+  if (options.flat) {
+    for (const entry of entries) {
+      const versionText = entry.version !== undefined ? `[version ${entry.version}] ` : '';
+      console.log(`${versionText}${entry.path}${entry.type === 'directory' ? '/' : ''} (${describeEntry(entry)})`);
+    }
+  } else {
+    const lines: string[] = [];
+    renderTree(buildTree(entries), '', lines);
+    lines.forEach(line => console.log(line));
+  }
+
+  const files = entries.filter(entry => entry.type === 'file');
+  const totalSize = files.reduce((sum, entry) => sum + entry.size, 0);
+  console.log('═'.repeat(80));
+  console.log(`${files.length} files, ${entries.length - files.length} directories, ${formatBytes(totalSize)} total`);
+}
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ArchiveManifest, ArchiveRoot } from './types.js';
+import { STAGED_METADATA_DIR, stagedMetadataPath } from './metadata.js';
+import { toISOString } from './utils.js';
+
+/**
+ * Archive manifest, recording which folders an archive holds and where each one's metadata.csv is
+ */
+
+/** Archive path of the manifest, next to staged metadata */
+export const MANIFEST_PATH = `${STAGED_METADATA_DIR}/manifest.json`;
+
+/** Version of the manifest layout */
+const MANIFEST_VERSION = 1;
+
+/**
+ * Write the manifest into the staged metadata directory that is archived as .paqt/
+ */
+export async function writeArchiveManifest(stagedDir: string, roots: ArchiveRoot[]): Promise<void> {
+  const manifest: ArchiveManifest = { version: MANIFEST_VERSION, createdAt: toISOString(new Date()), roots };
+  await fs.writeFile(join(stagedDir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Read the manifest of an extracted archive, or null when the archive predates manifests
+ */
+export async function readArchiveManifest(extractPath: string): Promise<ArchiveManifest | null> {
+  const manifestPath = join(extractPath, MANIFEST_PATH);
+  let content: string;
+  try {
+    content = await fs.readFile(manifestPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const manifest: ArchiveManifest = JSON.parse(content);
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`Unsupported archive manifest ${manifestPath} (version ${manifest.version})`);
+  }
+  return manifest;
+}
+
+/**
+ * Derive the roots of an archive from the archive paths of its metadata.csv files
+ * Staged metadata (.paqt/<folder>/metadata.csv) wins over <folder>/metadata.csv; roots are sorted by name
+ */
+export function rootsFromMetadataPaths(paths: string[]): ArchiveRoot[] {
+  const roots = new Map<string, ArchiveRoot>();
+  for (const path of paths) {
+    const parts = path.split('/');
+    if (parts.length === 3 && parts[0] === STAGED_METADATA_DIR && parts[2] === 'metadata.csv') {
+      roots.set(parts[1], { name: parts[1], metadata: path });
+    } else if (parts.length === 2 && parts[1] === 'metadata.csv' && parts[0] !== STAGED_METADATA_DIR && !roots.has(parts[0])) {
+      roots.set(parts[0], { name: parts[0], metadata: path });
+    }
+  }
+  return [...roots.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find the roots of an extracted archive without a manifest
+ * Only top-level directories with a metadata.csv (their own or staged) count, so stray files and folders are ignored
+ */
+export async function findExtractedRoots(extractPath: string): Promise<ArchiveRoot[]> {
+  const staged = await fs.readdir(join(extractPath, STAGED_METADATA_DIR)).catch(() => [] as string[]);
+  const candidates = [
+    ...staged.map(name => stagedMetadataPath(name)),
+    ...(await fs.readdir(extractPath)).map(name => `${name}/metadata.csv`)
+  ];
+
+  const existing: string[] = [];
+  for (const path of candidates) {
+    if (await fs.access(join(extractPath, path)).then(() => true, () => false)) {
+      existing.push(path);
+    }
+  }
+  return rootsFromMetadataPaths(existing);
+}
@@ -0,0 +1,226 @@
+import { promises as fs, BigIntStats } from 'fs';
+import { join } from 'path';
+import { ArchiveRoot, MergeStrategy, MergeSummary } from './types.js';
+import { STAGED_METADATA_DIR, isSpecialEntryType, readMetadataFile } from './metadata.js';
+import { parseTimestampNs, setTimestampsNs } from './timestamps.js';
+
+/**
+ * Merging extracted archive content into an output directory that already has files
+ */
+
+/** Paths listed per category in a merge summary */
+const SUMMARY_LIMIT = 10;
+
+/** What happens to one archived entry */
+type MergeDecision = 'add' | 'replace' | 'keep';
+
+/**
+ * Decide between the archived entry and the one on disk
+ * keep-newer only replaces files whose on-disk mtime is older than the archived one
+ */
+function resolveConflict(strategy: MergeStrategy, archivedTime: bigint, existing: BigIntStats | null): MergeDecision {
+  if (!existing) {
+    return 'add';
+  }
+  if (strategy === 'overwrite') {
+    return 'replace';
+  }
+  if (strategy === 'keep-newer' && archivedTime > existing.mtimeNs) {
+    return 'replace';
+  }
+  return 'keep';
+}
+
+/**
+ * Create an empty merge summary
+ */
+function createMergeSummary(): MergeSummary {
+  return { added: [], replaced: [], kept: [] };
+}
+
+/**
+ * Record a decision in the summary
+ */
+function recordDecision(summary: MergeSummary, decision: MergeDecision, paths: string[]): void {
+  const category = decision === 'add' ? summary.added : decision === 'replace' ? summary.replaced : summary.kept;
+  category.push(...paths);
+}
+
+/**
+ * List the non-directory entries below a directory (or the directory itself when it has none)
+ */
+async function listEntries(dirPath: string, relativePath: string): Promise<string[]> {
+  const paths: string[] = [];
+  for (const item of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const itemPath = `${relativePath}/${item.name}`;
+    if (item.isDirectory()) {
+      paths.push(...await listEntries(join(dirPath, item.name), itemPath));
+    } else {
+      paths.push(itemPath);
+    }
+  }
+  return paths.length > 0 ? paths : [`${relativePath}/`];
+}
+
+/**
+ * Copy a file, directory or symlink (with its target unchanged) together with its mode and timestamps
+ * Directories get their timestamps after their contents, since copying into them changes their mtime
+ */
+async function copyEntry(source: string, target: string): Promise<void> {
+  const stats = await fs.lstat(source, { bigint: true });
+  if (stats.isDirectory()) {
+    await fs.mkdir(target);
+    for (const name of await fs.readdir(source)) {
+      await copyEntry(join(source, name), join(target, name));
+    }
+    await fs.chmod(target, Number(stats.mode & 0o7777n));
+  } else if (stats.isSymbolicLink()) {
+    await fs.symlink(await fs.readlink(source), target);
+  } else if (stats.isFile()) {
+    await fs.copyFile(source, target);
+  } else {
+    throw new Error(`Cannot copy special file ${source} to another filesystem`);
+  }
+  await setTimestampsNs(target, stats.atimeNs, stats.mtimeNs, stats.isSymbolicLink());
+}
+
+/**
+ * Move a file or directory, copying when source and target are on different filesystems
+ */
+async function moveEntry(source: string, target: string): Promise<void> {
+  try {
+    await fs.rename(source, target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await copyEntry(source, target);
+    await fs.rm(source, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Merge one directory level; returns whether anything was added or replaced below it
+ */
+async function mergeDirectory(
+  sourceDir: string,
+  targetDir: string,
+  relativeDir: string,
+  strategy: MergeStrategy,
+  summary: MergeSummary
+): Promise<boolean> {
+  let changed = false;
+
+  for (const name of await fs.readdir(sourceDir)) {
+    const source = join(sourceDir, name);
+    const target = join(targetDir, name);
+    const relativePath = relativeDir ? `${relativeDir}/${name}` : name;
+    // Taken before any children are moved out, which would bump the directory mtime
+    const sourceStats = await fs.lstat(source, { bigint: true });
+    const targetStats = await fs.lstat(target, { bigint: true }).catch(() => null);
+
+    if (sourceStats.isDirectory() && targetStats?.isDirectory()) {
+      if (await mergeDirectory(source, target, relativePath, strategy, summary)) {
+        // Merged directories get their archived timestamps back once their content is final
+        await setTimestampsNs(target, sourceStats.atimeNs, sourceStats.mtimeNs, false);
+        changed = true;
+      }
+      continue;
+    }
+
+    const decision = resolveConflict(strategy, sourceStats.mtimeNs, targetStats);
+    const paths = sourceStats.isDirectory() ? await listEntries(source, relativePath) : [relativePath];
+    recordDecision(summary, decision, paths);
+    if (decision === 'keep') {
+      continue;
+    }
+
+    if (decision === 'replace') {
+      await fs.rm(target, { recursive: true, force: true });
+    }
+    await moveEntry(source, target);
+    changed = true;
+  }
+
+  return changed;
+}
+
+/**
+ * Merge an extracted (and timestamp-restored) staging directory into the output directory
+ * Archived mtimes are read from the staged files, which already carry the values from metadata.csv.
+ * The manifest and staged metadata under .paqt/ have served their purpose and are not merged
+ */
+export async function mergeExtracted(stagingDir: string, outputPath: string, strategy: MergeStrategy): Promise<MergeSummary> {
+  const summary = createMergeSummary();
+  await fs.rm(join(stagingDir, STAGED_METADATA_DIR), { recursive: true, force: true });
+  await mergeDirectory(stagingDir, outputPath, '', strategy, summary);
+  return summary;
+}
+
+/**
+ * Plan a merge from the roots' metadata.csv files (extracted into `metadataDir`) without extracting anything else
+ * Only entries accepted by `select` are considered; directories only count when they clash with a non-directory.
+ * Special files only count with `specialFiles`, as the restore skips them otherwise.
+ * A metadata.csv inside a root is merged like any file, with the mtime it was extracted with
+ */
+export async function planMerge(
+  metadataDir: string,
+  roots: ArchiveRoot[],
+  outputPath: string,
+  strategy: MergeStrategy,
+  select: (path: string, isDirectory: boolean) => boolean,
+  specialFiles: boolean
+): Promise<MergeSummary> {
+  const summary = createMergeSummary();
+
+  for (const root of roots) {
+    for (const entry of await readMetadataFile(join(metadataDir, root.metadata))) {
+      const isDirectory = entry.type === 'directory';
+      if (!select(entry.path, isDirectory) || (isSpecialEntryType(entry.type) && !specialFiles)) {
+        continue;
+      }
+
+      const existing = await fs.lstat(join(outputPath, root.name, entry.path), { bigint: true }).catch(() => null);
+      if (isDirectory && (!existing || existing.isDirectory())) {
+        continue;
+      }
+
+      const decision = resolveConflict(strategy, parseTimestampNs(entry.modifiedTime), existing);
+      recordDecision(summary, decision, [`${root.name}/${entry.path}${isDirectory ? '/' : ''}`]);
+    }
+
+    if (!root.metadata.startsWith(`${STAGED_METADATA_DIR}/`)) {
+      const archived = await fs.lstat(join(metadataDir, root.metadata), { bigint: true });
+      const existing = await fs.lstat(join(outputPath, root.metadata), { bigint: true }).catch(() => null);
+      recordDecision(summary, resolveConflict(strategy, archived.mtimeNs, existing), [root.metadata]);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Print how a merge resolved (or would resolve) each entry
+ */
+export function printMergeSummary(summary: MergeSummary, strategy: MergeStrategy, dryRun: boolean): void {
+  const categories: [string, string[]][] = dryRun
+    ? [['➕ Would add', summary.added], ['🔁 Would replace', summary.replaced], ['⏭️  Would keep', summary.kept]]
+    : [['➕ Added', summary.added], ['🔁 Replaced', summary.replaced], ['⏭️  Kept', summary.kept]];
+
+  console.log('\n' + '═'.repeat(80));
+  console.log(`📊 ${dryRun ? 'Merge preview' : 'Merge summary'} (${strategy})`);
+  console.log('═'.repeat(80));
+
+  for (const [title, paths] of categories) {
+    console.log(`${title}: ${paths.length}`);
+    paths.slice(0, SUMMARY_LIMIT).forEach(path => console.log(`   • ${path}`));
+    if (paths.length > SUMMARY_LIMIT) {
+      console.log(`   ... and ${paths.length - SUMMARY_LIMIT} more`);
+    }
+  }
+
+  const conflicts = summary.replaced.length + summary.kept.length;
+  console.log('═'.repeat(80));
+  console.log(`${conflicts} conflicts ${dryRun ? 'would be' : 'were'} resolved with ${strategy} ` +
+    `(${summary.replaced.length} from the archive, ${summary.kept.length} kept on disk)`);
+}
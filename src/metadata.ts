@@ -0,0 +1,482 @@
+import { promises as fs, BigIntStats, createReadStream, createWriteStream, WriteStream } from 'fs';
+import { createHash } from 'crypto';
+import { once } from 'events';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { parse } from 'csv-parse/sync';
+import { stringify } from 'csv-stringify/sync';
+import { EntryType, FileMetadata } from './types.js';
+import { formatTimestampNs } from './timestamps.js';
+
+/**
+ * Current metadata.csv schema version
+ *
+ * v1: path, modifiedTime (no version header)
+ * v2: adds type (file/directory/symlink/special), accessTime, birthTime, mode, uid, gid, size,
+ *     an optional content hash, the symlink target, the hard link group and device numbers
+ * v3: timestamps carry nanoseconds (nine fractional digits instead of three)
+ */
+export const METADATA_VERSION = 3;
+
+/** Top-level archive directory holding metadata that was staged outside the source folder */
+export const STAGED_METADATA_DIR = '.paqt';
+
+/** Prefix of the version header line written before the CSV header */
+const VERSION_HEADER_PREFIX = '# paqt-metadata v';
+
+/** Prefix of archive property lines (e.g. "# compression: method=5") between the version header and the CSV header */
+const PROPERTY_LINE_PREFIX = '# ';
+
+/** Column order for the current schema version */
+const METADATA_COLUMNS = [
+  'path',
+  'type',
+  'modifiedTime',
+  'accessTime',
+  'birthTime',
+  'mode',
+  'uid',
+  'gid',
+  'size',
+  'hash',
+  'linkTarget',
+  'linkGroup',
+  'deviceMajor',
+  'deviceMinor'
+];
+
+/** Entry types that are neither regular files, directories nor symlinks */
+const SPECIAL_ENTRY_TYPES: EntryType[] = ['fifo', 'socket', 'block-device', 'char-device'];
+
+/**
+ * Check whether an entry type is a special file (FIFO, socket or device node)
+ */
+export function isSpecialEntryType(type: EntryType): boolean {
+  return SPECIAL_ENTRY_TYPES.includes(type);
+}
+
+/**
+ * Determine the entry type from (l)stat results
+ */
+function entryTypeFromStats(stats: BigIntStats): EntryType {
+  if (stats.isSymbolicLink()) {
+    return 'symlink';
+  }
+  if (stats.isFIFO()) {
+    return 'fifo';
+  }
+  if (stats.isSocket()) {
+    return 'socket';
+  }
+  if (stats.isBlockDevice()) {
+    return 'block-device';
+  }
+  if (stats.isCharacterDevice()) {
+    return 'char-device';
+  }
+  return stats.isDirectory() ? 'directory' : 'file';
+}
+
+/**
+ * Split a device number (st_rdev) into major and minor numbers
+ * Uses the macOS layout on darwin and the glibc layout elsewhere
+ */
+function splitDeviceNumber(rdev: number): { major: number; minor: number } {
+  if (process.platform === 'darwin') {
+    return { major: Math.floor(rdev / 2 ** 24) & 0xff, minor: rdev % 2 ** 24 };
+  }
+
+  const low = rdev % 2 ** 32;
+  const high = Math.floor(rdev / 2 ** 32);
+  return {
+    major: ((low >>> 8) & 0xfff) | ((high & 0xfffff000) >>> 0),
+    minor: (low & 0xff) | ((low >>> 12) & 0xfff00)
+  };
+}
+
+/**
+ * Build a metadata entry from file, directory or symlink stats (read with `bigint: true` for nanosecond timestamps)
+ * Symlink targets are not part of stats and must be filled in by the caller
+ */
+export function metadataFromStats(relativePath: string, stats: BigIntStats): FileMetadata {
+  const type = entryTypeFromStats(stats);
+  const device = type === 'block-device' || type === 'char-device' ? splitDeviceNumber(Number(stats.rdev)) : undefined;
+  return {
+    path: relativePath,
+    type,
+    modifiedTime: formatTimestampNs(stats.mtimeNs),
+    accessTime: formatTimestampNs(stats.atimeNs),
+    birthTime: formatTimestampNs(stats.birthtimeNs),
+    mode: Number(stats.mode) & 0o7777,
+    uid: Number(stats.uid),
+    gid: Number(stats.gid),
+    size: type === 'file' ? Number(stats.size) : undefined,
+    // Group hard links by device+inode; the id is opaque and only compared within one metadata file
+    linkGroup: type === 'file' && stats.nlink > 1n ? `${stats.dev}:${stats.ino}` : undefined,
+    deviceMajor: device?.major,
+    deviceMinor: device?.minor
+  };
+}
+
+/**
+ * Compute the SHA-256 hash of a file's contents as a hex string
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const hash = createHash('sha256');
+    const stream = createReadStream(filePath);
+    stream.on('error', reject);
+    stream.on('data', chunk => hash.update(chunk));
+    stream.on('end', () => resolvePromise(hash.digest('hex')));
+  });
+}
+
+/**
+ * Archive path of the staged metadata.csv of a root folder (e.g. ".paqt/photos/metadata.csv")
+ */
+export function stagedMetadataPath(rootName: string): string {
+  return `${STAGED_METADATA_DIR}/${rootName}/metadata.csv`;
+}
+
+/**
+ * Format permission bits as an octal string (e.g. "755")
+ */
+export function formatMode(mode: number): string {
+  return (mode & 0o7777).toString(8);
+}
+
+/**
+ * Parse an optional integer column, returning undefined for empty values
+ */
+function parseOptionalInt(value: string | undefined, radix: number = 10): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = parseInt(value, radix);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Parse the type column, defaulting to 'file' for legacy rows
+ */
+function parseEntryType(value: string | undefined): EntryType {
+  const known: EntryType[] = ['directory', 'symlink', ...SPECIAL_ENTRY_TYPES];
+  return known.find(type => type === value) ?? 'file';
+}
+
+/**
+ * Parse a version header line, returning null for any other line
+ */
+function parseVersionLine(line: string): number | null {
+  if (!line.startsWith(VERSION_HEADER_PREFIX)) {
+    return null;
+  }
+  const version = parseInt(line.slice(VERSION_HEADER_PREFIX.length).trim(), 10);
+  return isNaN(version) ? 1 : version;
+}
+
+/**
+ * Parse an archive property line into a key and value, returning null for any other line
+ */
+function parsePropertyLine(line: string): [string, string] | null {
+  if (!line.startsWith(PROPERTY_LINE_PREFIX)) {
+    return null;
+  }
+  const separator = line.indexOf(': ');
+  if (separator === -1) {
+    return null;
+  }
+  return [line.slice(PROPERTY_LINE_PREFIX.length, separator), line.slice(separator + 2)];
+}
+
+/**
+ * Split the version header and property lines from CSV content, if present
+ */
+function splitVersionHeader(content: string): { version: number; properties: Record<string, string>; csv: string } {
+  const properties: Record<string, string> = {};
+  let version = 1;
+  let offset = 0;
+
+  while (offset < content.length && content.startsWith('#', offset)) {
+    const newlineIndex = content.indexOf('\n', offset);
+    const line = content.slice(offset, newlineIndex === -1 ? content.length : newlineIndex).replace(/\r$/, '');
+    offset = newlineIndex === -1 ? content.length : newlineIndex + 1;
+
+    const lineVersion = parseVersionLine(line);
+    const property = parsePropertyLine(line);
+    if (lineVersion !== null) {
+      version = lineVersion;
+    } else if (property) {
+      properties[property[0]] = property[1];
+    }
+  }
+
+  return { version, properties, csv: content.slice(offset) };
+}
+
+/** Number of bytes read when looking for the header of a metadata file */
+const HEADER_READ_SIZE = 64 * 1024;
+
+/**
+ * Read the version and archive properties of a metadata file without loading its entries
+ * Also returns the byte offset at which the CSV header starts
+ */
+async function readMetadataHeader(csvPath: string): Promise<{ version: number; properties: Record<string, string>; csvOffset: number }> {
+  const handle = await fs.open(csvPath, 'r');
+  try {
+    const buffer = Buffer.alloc(HEADER_READ_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_READ_SIZE, 0);
+    const head = buffer.subarray(0, bytesRead);
+
+    // Header lines are ASCII-prefixed, so cut the chunk at its last complete line before decoding
+    const lastNewline = head.lastIndexOf(0x0a);
+    const text = (bytesRead < HEADER_READ_SIZE || lastNewline === -1 ? head : head.subarray(0, lastNewline + 1)).toString('utf-8');
+    const { version, properties, csv } = splitVersionHeader(text);
+    return { version, properties, csvOffset: Buffer.byteLength(text) - Buffer.byteLength(csv) };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read the archive properties (e.g. compression settings) from a metadata file
+ * Returns an empty object when the file is missing or has no properties
+ */
+export async function readMetadataProperties(csvPath: string): Promise<Record<string, string>> {
+  try {
+    return (await readMetadataHeader(csvPath)).properties;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Set an archive property in the header of an existing metadata file
+ * The entries are streamed unchanged to a temporary file which then replaces the original
+ */
+export async function setMetadataProperty(csvPath: string, key: string, value: string): Promise<void> {
+  const { version, properties, csvOffset } = await readMetadataHeader(csvPath);
+  properties[key] = value;
+
+  const header = [
+    `${VERSION_HEADER_PREFIX}${version}`,
+    ...Object.entries(properties).map(([name, text]) => `${PROPERTY_LINE_PREFIX}${name}: ${text}`)
+  ];
+
+  const tempPath = `${csvPath}.tmp`;
+  const output = createWriteStream(tempPath, { encoding: 'utf-8' });
+  try {
+    await writeWithBackpressure(output, header.join('\n') + '\n');
+    for await (const chunk of createReadStream(csvPath, { start: csvOffset })) {
+      await writeWithBackpressure(output, chunk);
+    }
+  } finally {
+    await closeStream(output);
+  }
+
+  await fs.rename(tempPath, csvPath);
+}
+
+/**
+ * Read metadata entries from a CSV file
+ * Understands both the legacy v1 format and the current versioned format
+ */
+export async function readMetadataFile(csvPath: string): Promise<FileMetadata[]> {
+  try {
+    const content = await fs.readFile(csvPath, 'utf-8');
+    const { version, csv } = splitVersionHeader(content);
+
+    if (version > METADATA_VERSION) {
+      console.warn(`Warning: ${csvPath} uses metadata version ${version}, newer than supported version ${METADATA_VERSION}`);
+    }
+
+    const records = parse(csv, {
+      columns: true,
+      skip_empty_lines: true
+    });
+
+    return records.map((record: any) => ({
+      path: record.path,
+      type: parseEntryType(record.type),
+      modifiedTime: record.modifiedTime,
+      accessTime: record.accessTime || undefined,
+      birthTime: record.birthTime || undefined,
+      mode: parseOptionalInt(record.mode, 8),
+      uid: parseOptionalInt(record.uid),
+      gid: parseOptionalInt(record.gid),
+      size: parseOptionalInt(record.size),
+      hash: record.hash || undefined,
+      linkTarget: record.linkTarget || undefined,
+      linkGroup: record.linkGroup || undefined,
+      deviceMajor: parseOptionalInt(record.deviceMajor),
+      deviceMinor: parseOptionalInt(record.deviceMinor)
+    }));
+  } catch (error) {
+    // File doesn't exist or is invalid, return empty array
+    return [];
+  }
+}
+
+/**
+ * Convert a metadata entry to a CSV row object
+ */
+function toMetadataRow(entry: FileMetadata): Record<string, string | number> {
+  return {
+    path: entry.path,
+    type: entry.type,
+    modifiedTime: entry.modifiedTime,
+    accessTime: entry.accessTime ?? '',
+    birthTime: entry.birthTime ?? '',
+    mode: entry.mode !== undefined ? formatMode(entry.mode) : '',
+    uid: entry.uid ?? '',
+    gid: entry.gid ?? '',
+    size: entry.size ?? '',
+    hash: entry.hash ?? '',
+    linkTarget: entry.linkTarget ?? '',
+    linkGroup: entry.linkGroup ?? '',
+    deviceMajor: entry.deviceMajor ?? '',
+    deviceMinor: entry.deviceMinor ?? ''
+  };
+}
+
+/**
+ * Write metadata entries to a CSV file with a version header
+ */
+export async function writeMetadataFile(csvPath: string, metadata: FileMetadata[]): Promise<void> {
+  const csvContent = stringify(metadata.map(toMetadataRow), {
+    header: true,
+    columns: METADATA_COLUMNS
+  });
+
+  await fs.writeFile(csvPath, `${VERSION_HEADER_PREFIX}${METADATA_VERSION}\n${csvContent}`, 'utf-8');
+}
+
+/** Collator shared by all metadata sorting, equivalent to String#localeCompare */
+const pathCollator = new Intl.Collator();
+
+/**
+ * Compare two metadata entries by path for consistent CSV ordering
+ */
+export function compareMetadataPaths(a: FileMetadata, b: FileMetadata): number {
+  return pathCollator.compare(a.path, b.path);
+}
+
+/** Writer that accepts entries in any order and produces a path-sorted metadata.csv */
+export interface SortedMetadataWriter {
+  add(entry: FileMetadata): Promise<void>;
+  finish(): Promise<number>;
+}
+
+/**
+ * Write a string to a stream, waiting for it to drain when its buffer is full
+ */
+async function writeWithBackpressure(stream: WriteStream, chunk: string | Buffer): Promise<void> {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain');
+  }
+}
+
+/**
+ * Close a write stream and wait until everything is flushed
+ */
+async function closeStream(stream: WriteStream): Promise<void> {
+  stream.end();
+  await once(stream, 'finish');
+}
+
+/**
+ * Create a metadata writer that keeps memory bounded by spilling sorted runs
+ * of `chunkSize` entries to temporary files and merging them at the end
+ */
+export async function createSortedMetadataWriter(csvPath: string, chunkSize: number = 100000): Promise<SortedMetadataWriter> {
+  let buffer: FileMetadata[] = [];
+  let total = 0;
+  const spillDir = await fs.mkdtemp(join(tmpdir(), 'paqt-scan-'));
+  const runs: string[] = [];
+  // The folder walk calls add() concurrently, so additions and spills run one at a time in this chain
+  let pending: Promise<void> = Promise.resolve();
+
+  // Runs are stored as JSON lines so that paths containing newlines survive
+  const spill = async (): Promise<void> => {
+    const entries = buffer;
+    buffer = [];
+    entries.sort(compareMetadataPaths);
+    const runPath = join(spillDir, `run-${runs.length}.jsonl`);
+    runs.push(runPath);
+    const stream = createWriteStream(runPath, { encoding: 'utf-8' });
+    for (const entry of entries) {
+      await writeWithBackpressure(stream, JSON.stringify(entry) + '\n');
+    }
+    await closeStream(stream);
+  };
+
+  const writeRow = (stream: WriteStream, entry: FileMetadata): Promise<void> =>
+    writeWithBackpressure(stream, stringify([toMetadataRow(entry)], { columns: METADATA_COLUMNS }));
+
+  return {
+    add(entry: FileMetadata): Promise<void> {
+      const added = pending.then(async () => {
+        buffer.push(entry);
+        total++;
+        if (buffer.length >= chunkSize) {
+          await spill();
+        }
+      });
+      pending = added.catch(() => undefined);
+      return added;
+    },
+
+    async finish(): Promise<number> {
+      await pending;
+      const output = createWriteStream(csvPath, { encoding: 'utf-8' });
+      await writeWithBackpressure(output, `${VERSION_HEADER_PREFIX}${METADATA_VERSION}\n${METADATA_COLUMNS.join(',')}\n`);
+
+      try {
+        if (runs.length === 0) {
+          // Everything fit in memory, no merge needed
+          buffer.sort(compareMetadataPaths);
+          for (const entry of buffer) {
+            await writeRow(output, entry);
+          }
+        } else {
+          if (buffer.length > 0) {
+            await spill();
+          }
+
+          // k-way merge of the sorted runs
+          const readers = runs.map(runPath =>
+            createInterface({ input: createReadStream(runPath, { encoding: 'utf-8' }), crlfDelay: Infinity })[Symbol.asyncIterator]()
+          );
+          const heads: Array<FileMetadata | null> = await Promise.all(readers.map(async reader => {
+            const next = await reader.next();
+            return next.done ? null : JSON.parse(next.value);
+          }));
+
+          while (true) {
+            let minIndex = -1;
+            for (let i = 0; i < heads.length; i++) {
+              const head = heads[i];
+              if (head && (minIndex === -1 || compareMetadataPaths(head, heads[minIndex]!) < 0)) {
+                minIndex = i;
+              }
+            }
+            if (minIndex === -1) {
+              break;
+            }
+
+            await writeRow(output, heads[minIndex]!);
+            const next = await readers[minIndex].next();
+            heads[minIndex] = next.done ? null : JSON.parse(next.value);
+          }
+        }
+      } finally {
+        await closeStream(output);
+        await fs.rm(spillDir, { recursive: true, force: true });
+      }
+
+      buffer = [];
+      return total;
+    }
+  };
+}
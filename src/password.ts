@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import { resolve } from 'path';
+import { askPassword, shellQuote } from './utils.js';
+
+/**
+ * Archive passwords for encrypted formats (zpaq and 7z use AES)
+ */
+
+/** Environment variable read when no password option is given */
+export const PASSWORD_ENV_VAR = 'PAQT_PASSWORD';
+
+/** Shown instead of the key in logged command lines */
+const REDACTED_KEY = '********';
+
+/** Messages archivers print when a key is missing or wrong: zpaq, then 7z (tar streams are never encrypted) */
+const KEY_ERROR_PATTERNS = [/\bpassword incorrect\b/i, /\bWrong password\?/i, /\bCan ?not open encrypted archive\b/i];
+
+/** Explanations of key errors, for a wrong and a missing password */
+const WRONG_KEY_MESSAGE = 'The password is incorrect for this archive';
+const MISSING_KEY_MESSAGE = `The archive is encrypted; provide its password with --password, --password-file or ${PASSWORD_ENV_VAR}`;
+
+/** Password options shared by commands that read or write archives */
+export interface PasswordSource {
+  password?: boolean; // prompt on the terminal
+  passwordFile?: string;
+}
+
+/**
+ * Resolve the archive password from --password-file, an interactive prompt (--password)
+ * or the PAQT_PASSWORD environment variable, in that order
+ * With `confirm`, the prompt asks twice so a typo cannot lock an archive
+ */
+export async function resolvePassword(source: PasswordSource, confirm: boolean = false): Promise<string | undefined> {
+  if (source.password && source.passwordFile) {
+    console.error('❌ --password and --password-file cannot be used together');
+    process.exit(1);
+  }
+
+  let password: string | undefined;
+  if (source.passwordFile) {
+    try {
+      password = (await fs.readFile(resolve(source.passwordFile), 'utf-8')).replace(/\r?\n$/, '');
+    } catch (error) {
+      console.error(`❌ Cannot read password file ${source.passwordFile}: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (source.password) {
+    password = await askPassword('Password: ');
+    // Piped input cannot contain typos worth confirming, and a second prompt would find stdin consumed
+    if (confirm && process.stdin.isTTY && (await askPassword('Confirm password: ')) !== password) {
+      console.error('❌ Passwords do not match');
+      process.exit(1);
+    }
+  } else {
+    password = process.env[PASSWORD_ENV_VAR];
+  }
+
+  if (password === '') {
+    console.error('❌ Password must not be empty');
+    process.exit(1);
+  }
+  return password;
+}
+
+/**
+ * Replace the key in a command line so it can be logged
+ */
+export function redactKey(command: string, password?: string): string {
+  return password !== undefined ? command.split(shellQuote(password)).join(REDACTED_KEY) : command;
+}
+
+/**
+ * Explain an archiver failure caused by a missing or wrong key, or return null for other failures
+ */
+export function describeKeyError(stderr: string, password?: string): string | null {
+  if (!KEY_ERROR_PATTERNS.some(pattern => pattern.test(stderr))) {
+    return null;
+  }
+  return password !== undefined ? WRONG_KEY_MESSAGE : MISSING_KEY_MESSAGE;
+}
+
+/**
+ * Check whether archiver output, or an error already explained by describeKeyError, is about the key
+ */
+export function isKeyError(message: string): boolean {
+  return message.includes(WRONG_KEY_MESSAGE) || message.includes(MISSING_KEY_MESSAGE) ||
+    KEY_ERROR_PATTERNS.some(pattern => pattern.test(message));
+}
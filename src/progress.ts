@@ -0,0 +1,226 @@
+import { spawn } from 'child_process';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { CommandResult, ProgressUpdate } from './types.js';
+import { formatBytes } from './utils.js';
+
+/**
+ * Archiver commands run as child processes with a live progress bar and Ctrl-C handling
+ */
+
+/** Exit code after Ctrl-C (128 + SIGINT) */
+export const INTERRUPTED_EXIT_CODE = 130;
+
+/** Minimum time between two redraws of the progress bar */
+const RENDER_INTERVAL_MS = 250;
+
+/** Width of the bar in characters */
+const BAR_WIDTH = 30;
+
+/** Without a terminal, a progress line is printed every this many percent */
+const LOG_STEP_PERCENT = 10;
+
+/** Lines of captured stderr shown when a command fails */
+const STDERR_TAIL_LINES = 20;
+
+/** Captured stderr is trimmed to its last this many characters (progress output can run for hours) */
+const STDERR_LIMIT = 1024 * 1024;
+
+/** Progress source and scale of a command */
+export interface ProgressOptions {
+  totalBytes?: number; // bytes the progress is measured against (shows percent and ETA when known)
+  parse?: (output: string) => ProgressUpdate | null; // reads progress from the command's output
+  stdinFiles?: string[]; // piped to the command's stdin one after another; the bytes fed are the progress
+  quiet?: boolean; // no progress bar (for machine-readable output)
+}
+
+/**
+ * Read the last percentage (e.g. "42.5%") from a chunk of archiver output as a completed fraction
+ */
+export function parsePercentProgress(output: string): ProgressUpdate | null {
+  const matches = Array.from(output.matchAll(/(\d{1,3}(?:\.\d+)?)%/g));
+  return matches.length > 0 ? { fraction: parseFloat(matches[matches.length - 1][1]) / 100 } : null;
+}
+
+/** A progress bar drawn on one terminal line */
+interface ProgressBar {
+  update(update: ProgressUpdate): void;
+  finish(completed: boolean): void;
+}
+
+/**
+ * Format seconds as h:mm:ss
+ */
+function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+  const secs = String(total % 60).padStart(2, '0');
+  return `${hours}:${minutes}:${secs}`;
+}
+
+/**
+ * Create a progress bar showing percent, bytes/s and ETA
+ * Fractions are converted to bytes (and back) through `totalBytes` when it is known
+ */
+function createProgressBar(totalBytes?: number): ProgressBar {
+  const startedAt = Date.now();
+  const interactive = process.stdout.isTTY === true;
+  let bytes = 0;
+  let fraction: number | undefined;
+  let lastRender = 0;
+  let nextLogPercent = LOG_STEP_PERCENT;
+
+  const render = (): string => {
+    const elapsed = (Date.now() - startedAt) / 1000;
+    const parts: string[] = [];
+
+    if (fraction !== undefined) {
+      const filled = Math.round(fraction * BAR_WIDTH);
+      parts.push(`[${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)}] ${(fraction * 100).toFixed(1).padStart(5)}%`);
+    }
+    if (bytes > 0) {
+      parts.push(totalBytes ? `${formatBytes(bytes)} of ${formatBytes(totalBytes)}` : formatBytes(bytes));
+      if (elapsed > 0) {
+        parts.push(`${formatBytes(bytes / elapsed)}/s`);
+      }
+    }
+    if (fraction !== undefined && fraction > 0 && fraction < 1) {
+      parts.push(`ETA ${formatDuration(elapsed * (1 - fraction) / fraction)}`);
+    }
+    parts.push(`elapsed ${formatDuration(elapsed)}`);
+
+    return `  ${parts.join('  ')}`;
+  };
+
+  return {
+    update(update: ProgressUpdate): void {
+      if (update.fraction !== undefined) {
+        fraction = Math.min(1, Math.max(0, update.fraction));
+        bytes = totalBytes ? Math.round(fraction * totalBytes) : bytes;
+      }
+      if (update.bytes !== undefined) {
+        bytes = update.bytes;
+        fraction = totalBytes ? Math.min(1, bytes / totalBytes) : fraction;
+      }
+
+      if (interactive) {
+        const now = Date.now();
+        if (now - lastRender >= RENDER_INTERVAL_MS) {
+          lastRender = now;
+          process.stdout.write(`\r${render()}\x1b[K`);
+        }
+      } else if (fraction !== undefined && fraction * 100 >= nextLogPercent) {
+        console.log(render());
+        nextLogPercent = (Math.floor(fraction * 100 / LOG_STEP_PERCENT) + 1) * LOG_STEP_PERCENT;
+      }
+    },
+
+    finish(completed: boolean): void {
+      if (completed && totalBytes) {
+        fraction = 1;
+        bytes = totalBytes;
+      }
+      if (interactive) {
+        process.stdout.write(`\r${render()}\x1b[K\n`);
+      } else if (completed && nextLogPercent <= 100) {
+        // Skipped when the last logged line already was 100%
+        console.log(render());
+      }
+    }
+  };
+}
+
+/**
+ * Run an archiver command asynchronously with a progress bar
+ * The command runs in its own process group; Ctrl-C terminates the whole group and
+ * resolves with `interrupted` set, leaving cleanup of partial output to the caller.
+ * Captured stderr is shown (last lines only) when the command fails
+ */
+export function runWithProgress(command: string, cwd: string, options: ProgressOptions = {}): Promise<CommandResult> {
+  return new Promise(resolvePromise => {
+    const bar = options.quiet ? { update: () => {}, finish: () => {} } : createProgressBar(options.totalBytes);
+    let stderr = '';
+    let interrupted = false;
+    let settled = false;
+
+    const child = spawn(command, {
+      cwd,
+      shell: true,
+      detached: true,
+      stdio: [options.stdinFiles ? 'pipe' : 'ignore', 'pipe', 'pipe']
+    });
+
+    const onOutput = (chunk: Buffer): void => {
+      const update = options.parse?.(chunk.toString('utf8'));
+      if (update) {
+        bar.update(update);
+      }
+    };
+    child.stdout!.on('data', onOutput);
+    child.stderr!.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString('utf8')).slice(-STDERR_LIMIT);
+      onOutput(chunk);
+    });
+
+    if (options.stdinFiles) {
+      let fed = 0;
+      // Volumes of a split archive are streamed in order, never joined on disk
+      const files = options.stdinFiles;
+      const input = Readable.from((async function* () {
+        for (const file of files) {
+          yield* createReadStream(file);
+        }
+      })());
+      input.on('data', chunk => {
+        fed += chunk.length;
+        bar.update({ bytes: fed });
+      });
+      input.on('error', error => {
+        stderr += `${error.message}\n`;
+        child.stdin!.destroy();
+      });
+      // The command may exit (or be stopped) before reading everything
+      child.stdin!.on('error', () => input.destroy());
+      input.pipe(child.stdin!);
+    }
+
+    const onSigint = (): void => {
+      if (interrupted) {
+        return;
+      }
+      interrupted = true;
+      if (!options.quiet) {
+        process.stdout.write('\n');
+      }
+      console.warn('⚠️  Interrupted, stopping the archiver...');
+      try {
+        process.kill(-child.pid!, 'SIGTERM');
+      } catch {
+        // Already exited
+      }
+    };
+    process.on('SIGINT', onSigint);
+
+    const done = (status: number): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      process.off('SIGINT', onSigint);
+      bar.finish(status === 0 && !interrupted);
+      if (status !== 0 && !interrupted && stderr.trim() !== '') {
+        // Progress output uses carriage returns; keep only the final state of each line
+        const lines = stderr.split('\n').map(line => line.split('\r').pop()!).filter(line => line.trim() !== '');
+        lines.slice(-STDERR_TAIL_LINES).forEach(line => console.error(`  ${line}`));
+      }
+      resolvePromise({ status, stderr, interrupted });
+    };
+
+    child.on('error', error => {
+      stderr += `${error.message}\n`;
+      done(1);
+    });
+    child.on('close', (code, signal) => done(code ?? (signal ? 128 : 1)));
+  });
+}
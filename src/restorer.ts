@@ -1,80 +1,561 @@
-import { execSync } from 'child_process';
-import { promises as fs } from 'fs';
-import { resolve, basename, join } from 'path';
-import { DecompressOptions, ToolConfig } from './types.js';
-import { removeExtension, fromISOString } from './utils.js';
-import { loadMetadata } from './scanner.js';
+import { execFileSync } from 'child_process';
+import { promises as fs, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, basename, dirname, isAbsolute, join, sep } from 'path';
+import { ArchiveBackend, ArchiveInput, ArchiveRoot, DecompressOptions, ExtractRequest, FileMetadata, RestorableField, RestoreFailure, TimestampDrift } from './types.js';
+import { removeExtension, shellQuote, toISOString } from './utils.js';
+import { isSpecialEntryType, readMetadataFile, readMetadataProperties, stagedMetadataPath } from './metadata.js';
+import { readArchiveVersions, selectArchiveVersion } from './versions.js';
+import { COMPRESSION_PROPERTY, formatCompressionSettings, parseCompressionSettings } from './compression.js';
+import { createIgnoreMatcher, isPathIgnored, parseIgnoreRules, toArchivePatterns, toLiteralArchivePattern } from './ignore.js';
+import { findArchiveRoots } from './lister.js';
+import { MANIFEST_PATH, findExtractedRoots, readArchiveManifest } from './manifest.js';
+import { describeKeyError, redactKey } from './password.js';
+import { getBackend, requireBackend, resolveArchiveBackend } from './backends/index.js';
+import { archiveFileInput, checkVolumes, findVolumeIndex, joinVolumes, volumeInput } from './volumes.js';
+import { INTERRUPTED_EXIT_CODE, runWithProgress } from './progress.js';
+import { mergeExtracted, planMerge, printMergeSummary } from './merger.js';
+import { EXTRACTION_JOURNAL, checkExtractedFiles, readExtractionJournal, removeExtractionJournal, writeExtractionJournal } from './journal.js';
+import { formatTimestampNs, parseTimestampNs, setTimestampsNs, timestampDifferenceNs, touchBirthTime } from './timestamps.js';
+
+/** Marker file left in an output directory whose extraction was interrupted */
+const INCOMPLETE_MARKER = '.paqt-incomplete';
+
+/** Prefix of the staging directory a merge extracts into (inside the output directory) */
+const MERGE_STAGING_PREFIX = '.paqt-merge-';
+
+/** Longest extract command built when resuming lists the remaining files explicitly (shells cap a single argument at 128 KiB) */
+const MAX_COMMAND_LENGTH = 100_000;
+
+/**
+ * Check whether --include or --exclude restrict the extraction
+ */
+function isSelectiveExtraction(options: DecompressOptions): boolean {
+  return (options.include?.length ?? 0) > 0 || (options.exclude?.length ?? 0) > 0;
+}
+
+/**
+ * Build a filter for metadata paths from --include and --exclude globs
+ * A path is selected when it or a parent directory matches an include glob
+ * (or no include globs are given) and neither it nor a parent matches an exclude glob
+ */
+function createPathSelector(options: DecompressOptions): (path: string, isDirectory: boolean) => boolean {
+  const include = options.include?.length ? createIgnoreMatcher(parseIgnoreRules(options.include)) : null;
+  const exclude = createIgnoreMatcher(parseIgnoreRules(options.exclude ?? []));
+  return (path, isDirectory) =>
+    (!include || isPathIgnored(include, path, isDirectory)) && !isPathIgnored(exclude, path, isDirectory);
+}
+
+/**
+ * Check whether the current process can change file ownership
+ */
+function canChangeOwnership(): boolean {
+  return typeof process.getuid === 'function' && process.getuid() === 0;
+}
+
+/** Resolves a metadata path to its location inside the output folder, or null when it would leave the folder */
+type PathResolver = (entryPath: string) => Promise<string | null>;
+
+/**
+ * Create a resolver that keeps metadata paths inside a folder
+ * Absolute paths, `..` components and paths below a symlinked parent are rejected, so a crafted metadata.csv
+ * cannot write outside the folder (or through a link it created first); verified directories are cached
+ */
+function createPathResolver(folderPath: string): PathResolver {
+  const root = resolve(folderPath);
+  const safeDirectories = new Set<string>([root]);
+  
+  return async entryPath => {
+    const target = resolve(root, entryPath);
+    if (isAbsolute(entryPath) || !target.startsWith(root + sep)) {
+      return null;
+    }
+    
+    const checked: string[] = [];
+    for (let dir = dirname(target); !safeDirectories.has(dir); dir = dirname(dir)) {
+      const stats = await fs.lstat(dir).catch(() => null);
+      if (stats?.isSymbolicLink()) {
+        return null;
+      }
+      if (stats) {
+        checked.push(dir);
+      }
+    }
+    checked.forEach(dir => safeDirectories.add(dir));
+    return target;
+  };
+}
+
+/**
+ * Record an entry whose path would leave the output folder (once, although several steps may reject it)
+ */
+function rejectPath(entry: FileMetadata, failures: RestoreFailure[]): void {
+  if (failures.some(failure => failure.field === 'path' && failure.path === entry.path)) {
+    return;
+  }
+  failures.push({ path: entry.path, field: 'path', reason: 'leaves the output folder (absolute path, .. or a symlinked parent), skipped' });
+}
 
 /**
- * Set both creation time and modification time for a file
- * On macOS, this will set both birth time and mtime
- * On Linux, this will set mtime (birth time is not settable)
+ * Set access, modification and (on macOS) birth time for a file, to the nanosecond
+ * On macOS, birth time is lowered by touching the file with an earlier time first
+ * On Linux, birth time is not settable
+ * Symlinks get their own timestamps and are never followed
  */
-async function setFileTimestamps(filePath: string, timestamp: Date): Promise<void> {
+export async function setFileTimestamps(filePath: string, entry: FileMetadata, failures: RestoreFailure[]): Promise<void> {
+  // Whatever metadata says, a symlink on disk is never followed
+  const isSymlink = entry.type === 'symlink' || await fs.lstat(filePath).then(stats => stats.isSymbolicLink(), () => false);
+  
+  // On macOS, touch also lowers the birth time if the given time is earlier
+  if (process.platform === 'darwin' && entry.birthTime && !isSymlink) {
+    try {
+      touchBirthTime(filePath, entry.birthTime);
+    } catch (error) {
+      failures.push({ path: entry.path, field: 'birthtime', reason: (error as Error).message });
+    }
+  }
+  
   try {
-    // fs.utimes sets both atime and mtime
-    await fs.utimes(filePath, timestamp, timestamp);
+    // Sets both atime and mtime, overriding anything touch set above
+    const modifiedNs = parseTimestampNs(entry.modifiedTime);
+    const accessNs = entry.accessTime ? parseTimestampNs(entry.accessTime) : modifiedNs;
+    await setTimestampsNs(filePath, accessNs, modifiedNs, isSymlink);
+  } catch (error) {
+    const reason = (error as Error).message;
+    failures.push({ path: entry.path, field: 'mtime', reason });
+    if (entry.accessTime) {
+      failures.push({ path: entry.path, field: 'atime', reason });
+    }
+  }
+}
+
+/**
+ * Find restored entries whose modification time on disk differs from metadata
+ * (e.g. on filesystems with coarser timestamps, or when a later step touched them)
+ */
+export async function findTimestampDrift(extractedFolderPath: string, entries: FileMetadata[]): Promise<TimestampDrift[]> {
+  const drift: TimestampDrift[] = [];
+  for (const entry of entries) {
+    const stats = await fs.lstat(join(extractedFolderPath, entry.path), { bigint: true }).catch(() => null);
+    if (!stats) {
+      continue;
+    }
+    const actual = formatTimestampNs(stats.mtimeNs);
+    try {
+      if (timestampDifferenceNs(entry.modifiedTime, actual) !== 0n) {
+        drift.push({ path: entry.path, expected: entry.modifiedTime, actual });
+      }
+    } catch {
+      drift.push({ path: entry.path, expected: entry.modifiedTime, actual });
+    }
+  }
+  return drift;
+}
+
+/**
+ * Print entries whose modification time does not match metadata after restoring
+ */
+export function reportTimestampDrift(drift: TimestampDrift[]): void {
+  if (drift.length === 0) {
+    console.log('✓ Verified modification times of all restored entries');
+    return;
+  }
+  
+  console.warn(`\n🕒 ${drift.length} entries have a modification time that differs from metadata.csv:`);
+  drift.slice(0, 20).forEach(item => console.warn(`   • ${item.path}: expected ${item.expected}, found ${item.actual}`));
+  if (drift.length > 20) {
+    console.warn(`   ... and ${drift.length - 20} more`);
+  }
+}
+
+/**
+ * Restore ownership and permission bits for a file
+ * Ownership is applied first because chown clears setuid/setgid bits
+ * Symlinks only get their ownership restored; their permission bits are not meaningful.
+ * The type on disk decides, so chmod and chown never follow a link
+ */
+async function setFileAttributes(filePath: string, entry: FileMetadata, failures: RestoreFailure[]): Promise<void> {
+  const isSymlink = entry.type === 'symlink' || await fs.lstat(filePath).then(stats => stats.isSymbolicLink(), () => false);
+  
+  if (entry.uid !== undefined && entry.gid !== undefined) {
+    if (canChangeOwnership()) {
+      try {
+        if (isSymlink) {
+          await fs.lchown(filePath, entry.uid, entry.gid);
+        } else {
+          await fs.chown(filePath, entry.uid, entry.gid);
+        }
+      } catch (error) {
+        failures.push({ path: entry.path, field: 'owner', reason: (error as Error).message });
+      }
+    } else {
+      const stats = await fs.lstat(filePath);
+      if (stats.uid !== entry.uid || stats.gid !== entry.gid) {
+        failures.push({
+          path: entry.path,
+          field: 'owner',
+          reason: `requires root privileges (expected ${entry.uid}:${entry.gid}, found ${stats.uid}:${stats.gid})`
+        });
+      }
+    }
+  }
+  
+  if (entry.mode !== undefined && !isSymlink) {
+    try {
+      await fs.chmod(filePath, entry.mode);
+    } catch (error) {
+      failures.push({ path: entry.path, field: 'mode', reason: (error as Error).message });
+    }
+  }
+}
+
+/**
+ * Recreate symlinks recorded in metadata
+ * Regular files at a symlink's path (e.g. a dereferenced copy) are replaced by the link
+ */
+async function recreateSymlinks(resolvePath: PathResolver, symlinks: FileMetadata[], failures: RestoreFailure[]): Promise<number> {
+  let createdCount = 0;
+  
+  for (const entry of symlinks) {
+    if (!entry.linkTarget) {
+      failures.push({ path: entry.path, field: 'symlink', reason: 'no link target recorded in metadata' });
+      continue;
+    }
+    
+    const linkPath = await resolvePath(entry.path);
+    if (!linkPath) {
+      rejectPath(entry, failures);
+      continue;
+    }
+    try {
+      const existing = await fs.lstat(linkPath).catch(() => null);
+      if (existing?.isSymbolicLink() && (await fs.readlink(linkPath)) === entry.linkTarget) {
+        continue;
+      }
+      if (existing?.isDirectory()) {
+        failures.push({ path: entry.path, field: 'symlink', reason: 'a directory exists at the link path' });
+        continue;
+      }
+      if (existing) {
+        await fs.unlink(linkPath);
+      }
+      
+      await fs.mkdir(dirname(linkPath), { recursive: true });
+      await fs.symlink(entry.linkTarget, linkPath);
+      createdCount++;
+    } catch (error) {
+      failures.push({ path: entry.path, field: 'symlink', reason: (error as Error).message });
+    }
+  }
+  
+  return createdCount;
+}
+
+/**
+ * Recreate FIFOs and (when running as root) device nodes recorded in metadata
+ * Sockets belong to a running process and cannot be recreated
+ * Returns the entries that exist on disk afterwards
+ */
+async function recreateSpecialFiles(
+  resolvePath: PathResolver,
+  specialFiles: FileMetadata[],
+  failures: RestoreFailure[]
+): Promise<FileMetadata[]> {
+  const recreated: FileMetadata[] = [];
+  
+  for (const entry of specialFiles) {
+    const filePath = await resolvePath(entry.path);
+    if (!filePath) {
+      rejectPath(entry, failures);
+      continue;
+    }
+    
+    if (await fs.lstat(filePath).then(() => true, () => false)) {
+      recreated.push(entry);
+      continue;
+    }
     
-    // On macOS, also try to set birth time using touch command
-    if (process.platform === 'darwin') {
+    try {
+      await fs.mkdir(dirname(filePath), { recursive: true });
+      
+      if (entry.type === 'fifo') {
+        execFileSync('mkfifo', [filePath], { stdio: 'ignore' });
+      } else if (entry.type === 'block-device' || entry.type === 'char-device') {
+        if (!canChangeOwnership()) {
+          failures.push({ path: entry.path, field: 'special', reason: 'device nodes can only be created as root' });
+          continue;
+        }
+        if (entry.deviceMajor === undefined || entry.deviceMinor === undefined) {
+          failures.push({ path: entry.path, field: 'special', reason: 'no device numbers recorded in metadata' });
+          continue;
+        }
+        const nodeType = entry.type === 'block-device' ? 'b' : 'c';
+        execFileSync('mknod', [filePath, nodeType, String(entry.deviceMajor), String(entry.deviceMinor)], { stdio: 'ignore' });
+      } else {
+        failures.push({ path: entry.path, field: 'special', reason: 'sockets cannot be recreated' });
+        continue;
+      }
+      
+      recreated.push(entry);
+    } catch (error) {
+      failures.push({ path: entry.path, field: 'special', reason: (error as Error).message });
+    }
+  }
+  
+  return recreated;
+}
+
+/**
+ * Group metadata entries by hard link group, ignoring groups with a single member
+ */
+function groupHardLinks(files: FileMetadata[]): FileMetadata[][] {
+  const groups = new Map<string, FileMetadata[]>();
+  for (const entry of files) {
+    if (entry.linkGroup) {
+      const group = groups.get(entry.linkGroup) ?? [];
+      group.push(entry);
+      groups.set(entry.linkGroup, group);
+    }
+  }
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+/**
+ * Re-link hard link groups recorded in metadata
+ * The first extracted member of each group becomes the shared inode; other members
+ * are replaced by links to it. Groups that cannot be linked are reported per path
+ */
+async function relinkHardLinks(
+  resolvePath: PathResolver,
+  files: FileMetadata[],
+  failures: RestoreFailure[]
+): Promise<{ groupCount: number; linkedCount: number; failedGroups: number }> {
+  const groups = groupHardLinks(files);
+  let linkedCount = 0;
+  let failedGroups = 0;
+  
+  for (const group of groups) {
+    // Members whose path leaves the output folder are neither linked to nor replaced
+    const members: Array<{ entry: FileMetadata; path: string }> = [];
+    for (const entry of group) {
+      const path = await resolvePath(entry.path);
+      if (path) {
+        members.push({ entry, path });
+      } else {
+        rejectPath(entry, failures);
+      }
+    }
+    
+    let source: { entry: FileMetadata; path: string; dev: number; ino: number } | null = null;
+    for (const member of members) {
+      const stats = await fs.lstat(member.path).catch(() => null);
+      if (stats?.isFile()) {
+        source = { ...member, dev: stats.dev, ino: stats.ino };
+        break;
+      }
+    }
+    
+    if (!source) {
+      group.forEach(entry => failures.push({ path: entry.path, field: 'hardlink', reason: 'no member of the link group was extracted' }));
+      failedGroups++;
+      continue;
+    }
+    
+    let groupFailed = members.length < group.length;
+    for (const { entry, path: linkPath } of members) {
+      if (entry === source.entry) {
+        continue;
+      }
+      
       try {
-        // Format timestamp for touch command (YYYYMMDDHHMM.SS)
-        const year = timestamp.getFullYear();
-        const month = String(timestamp.getMonth() + 1).padStart(2, '0');
-        const day = String(timestamp.getDate()).padStart(2, '0');
-        const hour = String(timestamp.getHours()).padStart(2, '0');
-        const minute = String(timestamp.getMinutes()).padStart(2, '0');
-        const second = String(timestamp.getSeconds()).padStart(2, '0');
+        const existing = await fs.lstat(linkPath).catch(() => null);
+        if (existing && existing.dev === source.dev && existing.ino === source.ino) {
+          continue;
+        }
+        if (existing?.isDirectory()) {
+          throw new Error('a directory exists at the link path');
+        }
+        if (existing) {
+          await fs.unlink(linkPath);
+        }
         
-        const touchFormat = `${year}${month}${day}${hour}${minute}.${second}`;
-        execSync(`touch -t ${touchFormat} "${filePath}"`, { stdio: 'ignore' });
-      } catch {
-        // If touch fails, we still have mtime set via fs.utimes
+        await fs.mkdir(dirname(linkPath), { recursive: true });
+        await fs.link(source.path, linkPath);
+        linkedCount++;
+      } catch (error) {
+        failures.push({ path: entry.path, field: 'hardlink', reason: `could not link to ${source.entry.path}: ${(error as Error).message}` });
+        groupFailed = true;
       }
     }
-  } catch (error) {
-    console.warn(`Warning: Could not set timestamp for ${filePath}:`, error);
+    
+    if (groupFailed) {
+      failedGroups++;
+    }
   }
+  
+  return { groupCount: groups.length, linkedCount, failedGroups };
 }
 
 /**
- * Restore timestamps for all files based on metadata.csv
+ * Print a per-field summary of metadata that could not be restored
  */
-async function restoreTimestamps(extractedFolderPath: string): Promise<void> {
+export function reportRestoreFailures(failures: RestoreFailure[]): void {
+  if (failures.length === 0) {
+    return;
+  }
+  
+  const fields: RestorableField[] = ['path', 'symlink', 'hardlink', 'special', 'mtime', 'atime', 'birthtime', 'mode', 'owner'];
+  
+  console.warn('\n⚠️  Some metadata could not be restored:');
+  for (const field of fields) {
+    const fieldFailures = failures.filter(f => f.field === field);
+    if (fieldFailures.length === 0) {
+      continue;
+    }
+    
+    console.warn(`   ${field}: ${fieldFailures.length} entries`);
+    fieldFailures.slice(0, 5).forEach(failure => {
+      console.warn(`      • ${failure.path}: ${failure.reason}`);
+    });
+    if (fieldFailures.length > 5) {
+      console.warn(`      ... and ${fieldFailures.length - 5} more`);
+    }
+  }
+}
+
+/**
+ * Restore timestamps, permissions and ownership for all files and directories based on metadata.csv
+ */
+async function restoreTimestamps(extractedFolderPath: string, metadataPath: string, options: DecompressOptions = {}): Promise<void> {
   console.log('Restoring timestamps...');
   
   try {
-    const metadata = await loadMetadata(extractedFolderPath);
+    const allMetadata = await readMetadataFile(metadataPath);
     
-    if (metadata.length === 0) {
+    if (allMetadata.length === 0) {
       console.warn('Warning: No metadata found or metadata.csv is empty');
       return;
     }
     
+    // Selective extraction only restores the rows of entries that were asked for
+    const selective = isSelectiveExtraction(options);
+    const isSelected = createPathSelector(options);
+    const metadata = selective
+      ? allMetadata.filter(entry => isSelected(entry.path, entry.type === 'directory'))
+      : allMetadata;
+    if (selective) {
+      console.log(`  ${metadata.length} of ${allMetadata.length} metadata entries match --include/--exclude`);
+    }
+    
+    if (!canChangeOwnership()) {
+      console.log('  Not running as root, file ownership will not be changed');
+    }
+    
+    const files = metadata.filter(entry => entry.type === 'file');
+    const symlinks = metadata.filter(entry => entry.type === 'symlink');
+    const specialFiles = metadata.filter(entry => isSpecialEntryType(entry.type));
+    // Deepest directories first, so restoring a parent is never undone by work on its children
+    const directories = metadata
+      .filter(entry => entry.type === 'directory')
+      .sort((a, b) => b.path.split('/').length - a.path.split('/').length || b.path.localeCompare(a.path));
+    
+    // Every path is checked against the folder before anything is created, replaced or changed
+    const resolvePath = createPathResolver(extractedFolderPath);
+    const failures: RestoreFailure[] = [];
+    
+    // Recreate directories the archive did not carry (e.g. empty ones dropped by zpaq)
+    let createdCount = 0;
+    for (const entry of directories) {
+      const dirPath = await resolvePath(entry.path);
+      if (!dirPath) {
+        continue;
+      }
+      try {
+        await fs.access(dirPath);
+      } catch {
+        try {
+          await fs.mkdir(dirPath, { recursive: true });
+          createdCount++;
+        } catch (error) {
+          console.warn(`Warning: Could not create directory ${entry.path}:`, error);
+        }
+      }
+    }
+    if (createdCount > 0) {
+      console.log(`  Recreated ${createdCount} missing directories`);
+    }
+    
     let restoredCount = 0;
+    const restored: FileMetadata[] = [];
     let errorCount = 0;
+    let missingCount = 0;
+    
+    // Symlinks are recreated from metadata rather than relying on the archiver to store them
+    const linkCount = await recreateSymlinks(resolvePath, symlinks, failures);
+    if (linkCount > 0) {
+      console.log(`  Recreated ${linkCount} symlinks`);
+    }
+    
+    // Special files are never archived; recreate them only when asked to
+    let recreatedSpecialFiles: FileMetadata[] = [];
+    if (specialFiles.length > 0) {
+      if (options.specialFiles) {
+        recreatedSpecialFiles = await recreateSpecialFiles(resolvePath, specialFiles, failures);
+        console.log(`  Recreated ${recreatedSpecialFiles.length} of ${specialFiles.length} special files`);
+      } else {
+        console.log(`  Skipping ${specialFiles.length} special files (use --special-files to recreate FIFOs and device nodes)`);
+      }
+    }
+    
+    // Hard links are extracted as separate copies; turn them back into shared inodes
+    const hardLinks = await relinkHardLinks(resolvePath, files, failures);
+    if (hardLinks.groupCount > 0) {
+      console.log(`  Re-linked ${hardLinks.linkedCount} hard links in ${hardLinks.groupCount} groups` +
+        (hardLinks.failedGroups > 0 ? ` (${hardLinks.failedGroups} groups could not be linked)` : ''));
+    }
     
-    for (const entry of metadata) {
-      const filePath = join(extractedFolderPath, entry.path);
+    // Files and symlinks first, then directories bottom-up once nothing else will be written into them
+    for (const entry of [...files, ...symlinks, ...recreatedSpecialFiles, ...directories]) {
+      const filePath = await resolvePath(entry.path);
+      if (!filePath) {
+        rejectPath(entry, failures);
+        errorCount++;
+        continue;
+      }
+      
+      // Archive globs are coarser than metadata rules, so a selected entry may legitimately be absent
+      if (selective && !(await fs.lstat(filePath).then(() => true, () => false))) {
+        missingCount++;
+        continue;
+      }
       
       try {
-        // Check if file exists
-        await fs.access(filePath);
+        // Check if the entry exists (lstat so broken symlinks still count)
+        await fs.lstat(filePath);
         
-        // Parse timestamp and restore
-        const timestamp = fromISOString(entry.modifiedTime);
-        await setFileTimestamps(filePath, timestamp);
+        // Attributes first: chmod/chown do not touch mtime, but keep timestamps last anyway
+        await setFileAttributes(filePath, entry, failures);
+        await setFileTimestamps(filePath, entry, failures);
         restoredCount++;
+        restored.push(entry);
       } catch (error) {
         console.warn(`Warning: Could not restore timestamp for ${entry.path}:`, error);
         errorCount++;
       }
     }
     
-    console.log(`✓ Restored timestamps for ${restoredCount} files`);
+    console.log(`✓ Restored timestamps for ${restoredCount} entries (${files.length} files, ${symlinks.length} symlinks, ` +
+      `${directories.length} directories, ${specialFiles.length} special files in metadata)`);
+    if (missingCount > 0) {
+      console.log(`  ${missingCount} selected entries were not extracted and were skipped`);
+    }
     if (errorCount > 0) {
-      console.warn(`  ${errorCount} files had timestamp restoration errors`);
+      console.warn(`  ${errorCount} entries had timestamp restoration errors`);
     }
+    reportRestoreFailures(failures);
+    
+    // Verification pass: read every restored mtime back
+    reportTimestampDrift(await findTimestampDrift(extractedFolderPath, restored));
     
   } catch (error) {
     console.error('Error loading metadata for timestamp restoration:', error);
@@ -83,41 +564,212 @@ async function restoreTimestamps(extractedFolderPath: string): Promise<void> {
 }
 
 /**
- * Decompress a zpaq archive and restore timestamps
+ * Extract only the archive's metadata.csv files into a temporary directory (removed on exit)
+ * Returns the directory and the archived folders
+ */
+async function extractArchiveMetadata(
+  backend: ArchiveBackend,
+  archive: ArchiveInput,
+  options: DecompressOptions,
+  untilArgument?: string
+): Promise<{ metadataDir: string; roots: ArchiveRoot[] }> {
+  const roots = findArchiveRoots(backend, archive, options.password);
+  if (roots.length === 0) {
+    console.error('Error: Could not find metadata.csv in the archive');
+    process.exit(1);
+  }
+  
+  const metadataDir = await fs.mkdtemp(join(tmpdir(), 'paqt-metadata-'));
+  process.once('exit', () => rmSync(metadataDir, { recursive: true, force: true }));
+  
+  console.log(`Reading ${roots.map(root => root.metadata).join(', ')} with ${backend.tool}...`);
+  const result = await runWithProgress(backend.extractCommand({
+    archivePath: archive.path,
+    includes: roots.map(root => root.metadata),
+    excludes: [],
+    until: untilArgument,
+    password: options.password
+  }), metadataDir, {
+    totalBytes: archive.size,
+    parse: backend.parseProgress,
+    stdinFiles: backend.extractsFromStdin ? archive.files : undefined
+  });
+  if (result.interrupted) {
+    process.exit(INTERRUPTED_EXIT_CODE);
+  }
+  if (result.status !== 0) {
+    console.error(`Error reading metadata.csv: ${backend.tool} exited with code ${result.status}`);
+    const keyError = describeKeyError(result.stderr, options.password);
+    if (keyError) {
+      console.error(keyError);
+    }
+    process.exit(1);
+  }
+  
+  return { metadataDir, roots };
+}
+
+/**
+ * Preview a merge into the output directory from the archive's metadata.csv files alone
+ */
+async function previewArchiveMerge(
+  backend: ArchiveBackend,
+  archive: ArchiveInput,
+  outputPath: string,
+  options: DecompressOptions,
+  untilArgument?: string
+): Promise<void> {
+  const { metadataDir, roots } = await extractArchiveMetadata(backend, archive, options, untilArgument);
+  const summary = await planMerge(metadataDir, roots, outputPath, options.merge!, createPathSelector(options), options.specialFiles === true);
+  printMergeSummary(summary, options.merge!, true);
+  console.log('Dry run: nothing was extracted');
+}
+
+/**
+ * Check the files an interrupted run extracted and build the commands that extract the rest
+ * Complete files (size and, when recorded, hash match metadata) are kept and incomplete ones removed.
+ * Backends that can skip existing files run once over the whole selection;
+ * otherwise the remaining files are listed explicitly, split into commands of bounded length
+ */
+async function planResumedExtraction(
+  backend: ArchiveBackend,
+  archive: ArchiveInput,
+  request: ExtractRequest,
+  outputPath: string,
+  options: DecompressOptions
+): Promise<string[]> {
+  const { metadataDir, roots } = await extractArchiveMetadata(backend, archive, options, request.until);
+  const isSelected = createPathSelector(options);
+  // metadata.csv and the manifest may themselves be truncated, so they are always extracted again
+  const patterns = [MANIFEST_PATH, ...roots.map(root => root.metadata)];
+  await fs.rm(join(outputPath, MANIFEST_PATH), { force: true });
+  
+  for (const root of roots) {
+    const metadataPath = join(metadataDir, root.metadata);
+    const entries = (await readMetadataFile(metadataPath)).filter(entry => !isSpecialEntryType(entry.type));
+    const files = entries.filter(entry => entry.type === 'file' && isSelected(entry.path, false));
+    
+    console.log(`Checking ${files.length} files of ${root.name} against metadata.csv...`);
+    const check = await checkExtractedFiles(join(outputPath, root.name), files);
+    for (const path of check.incomplete) {
+      await fs.rm(join(outputPath, root.name, path), { recursive: true, force: true });
+    }
+    await fs.rm(join(outputPath, root.metadata), { force: true });
+    console.log(`✓ ${check.complete} files complete, ${check.missing.length} missing, ${check.incomplete.length} incomplete (removed)`);
+    
+    // Archivers without wildcard escapes may match more than the file itself; those files are extracted
+    // again with it, so complete copies are removed first rather than conflicting with the extraction
+    const archivedPaths = entries.map(entry => `${root.name}/${entry.path}`);
+    const extracted = [...check.missing, ...check.incomplete];
+    const reextracted = new Set<string>();
+    for (const path of extracted) {
+      const { pattern, collisions } = toLiteralArchivePattern(`${root.name}/${path}`, archivedPaths, backend.escapeWildcards);
+      patterns.push(pattern);
+      collisions.forEach(collision => reextracted.add(collision));
+    }
+    const removable = entries.filter(entry => entry.type === 'file' && !extracted.includes(entry.path) &&
+      [...reextracted].some(collision => `${root.name}/${entry.path}` === collision || `${root.name}/${entry.path}`.startsWith(`${collision}/`)));
+    for (const entry of removable) {
+      await fs.rm(join(outputPath, root.name, entry.path), { force: true });
+    }
+    if (removable.length > 0) {
+      console.log(`✓ ${removable.length} complete files share a pattern with missing ones and are extracted again`);
+    }
+  }
+  
+  if (backend.skipsExisting) {
+    return [backend.extractCommand({ ...request, skipExisting: true })];
+  }
+  
+  const baseLength = backend.extractCommand({ ...request, includes: [] }).length;
+  const commands: string[] = [];
+  let batch: string[] = [];
+  let length = baseLength;
+  for (const pattern of patterns) {
+    // Each path adds its quoted form and a separating space
+    const patternLength = shellQuote(pattern).length + 1;
+    if (batch.length > 0 && length + patternLength > MAX_COMMAND_LENGTH) {
+      commands.push(backend.extractCommand({ ...request, includes: batch }));
+      batch = [];
+      length = baseLength;
+    }
+    batch.push(pattern);
+    length += patternLength;
+  }
+  commands.push(backend.extractCommand({ ...request, includes: batch }));
+  return commands;
+}
+
+/**
+ * Decompress an archive and restore timestamps
+ * With a merge strategy the archive is extracted into a staging directory and merged into the (non-empty) output directory
  */
 export async function decompressArchive(
   archivePath: string,
-  options: DecompressOptions,
-  toolConfig: ToolConfig
+  options: DecompressOptions
 ): Promise<void> {
-  const resolvedArchivePath = resolve(archivePath);
+  let resolvedArchivePath = resolve(archivePath);
   
   console.log(`Decompressing archive: ${resolvedArchivePath}`);
   
+  // A split archive is given by its index, one of its volumes or its original name
+  const volumeIndexPath = await findVolumeIndex(resolvedArchivePath);
+  const volumeIndex = volumeIndexPath ? await checkVolumes(volumeIndexPath) : null;
+  
   // Check if archive exists
-  try {
-    const stats = await fs.stat(resolvedArchivePath);
-    if (!stats.isFile()) {
-      console.error(`Error: ${resolvedArchivePath} is not a file`);
+  if (!volumeIndex) {
+    try {
+      const stats = await fs.stat(resolvedArchivePath);
+      if (!stats.isFile()) {
+        console.error(`Error: ${resolvedArchivePath} is not a file`);
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(`Error: Archive ${resolvedArchivePath} does not exist`);
       process.exit(1);
     }
-  } catch (error) {
-    console.error(`Error: Archive ${resolvedArchivePath} does not exist`);
+  }
+  
+  const backend = volumeIndex
+    ? requireBackend(getBackend(volumeIndex.format))
+    : await resolveArchiveBackend(resolvedArchivePath);
+  if ((options.version !== undefined || options.until !== undefined) && !backend.supportsVersions) {
+    console.error(`Error: ${backend.format} archives have a single version, --version and --until are not supported`);
     process.exit(1);
   }
   
   // Determine output directory
-  const archiveBasename = basename(resolvedArchivePath);
-  const defaultOutputName = removeExtension(archiveBasename, '.zpaq');
+  const archiveBasename = volumeIndex ? volumeIndex.archive : basename(resolvedArchivePath);
+  const defaultOutputName = removeExtension(archiveBasename, backend.extension);
   const outputPath = (options.output && typeof options.output === 'string') ? resolve(options.output) : resolve(defaultOutputName);
   
-  // Ensure output directory doesn't exist or is empty
+  // An interrupted run leaves its journal behind; --resume continues it with the same selection
+  const archiveSize = volumeIndex ? volumeIndex.totalSize : (await fs.stat(resolvedArchivePath)).size;
+  const journal = await readExtractionJournal(outputPath).catch(() => null);
+  if (options.resume) {
+    if (!journal) {
+      console.error(`Error: No extraction journal (${EXTRACTION_JOURNAL}) in ${outputPath}, there is nothing to resume`);
+      process.exit(1);
+    }
+    if (journal.archive !== archiveBasename || journal.archiveSize !== archiveSize) {
+      console.error(`Error: The extraction in ${outputPath} was started from ${journal.archive} (${journal.archiveSize} bytes), not this archive`);
+      process.exit(1);
+    }
+    console.log(`Resuming the extraction started at ${journal.startedAt}`);
+    options = { ...options, ...journal.selection };
+  }
+  
+  // Ensure output directory doesn't exist or is empty (only merges and resumed runs may add to an existing directory)
+  const selective = isSelectiveExtraction(options);
   try {
     const stats = await fs.stat(outputPath);
     if (stats.isDirectory()) {
       const contents = await fs.readdir(outputPath);
-      if (contents.length > 0) {
+      if (contents.length > 0 && !options.merge && !options.resume) {
         console.error(`Error: Output directory ${outputPath} already exists and is not empty`);
+        console.error(journal
+          ? 'It holds an interrupted extraction of this archive, rerun with --resume to continue it'
+          : 'Use --overwrite, --skip-existing or --keep-newer to merge into it');
         process.exit(1);
       }
     } else {
@@ -128,69 +780,207 @@ export async function decompressArchive(
     // Directory doesn't exist, which is fine
   }
   
-  // Create output directory if it doesn't exist
-  try {
-    await fs.mkdir(outputPath, { recursive: true });
-  } catch (error) {
-    console.error(`Error creating output directory ${outputPath}:`, error);
-    process.exit(1);
+  // Create output directory if it doesn't exist (a dry run leaves the disk untouched)
+  if (!options.dryRun) {
+    try {
+      await fs.mkdir(outputPath, { recursive: true });
+    } catch (error) {
+      console.error(`Error creating output directory ${outputPath}:`, error);
+      process.exit(1);
+    }
   }
   
-  // Build zpaq extraction command
-  const command = [
-    toolConfig.zpaqCommand,
-    'x',
-    `"${resolvedArchivePath}"`
-  ].join(' ');
+  // Split volumes are read in place where the archiver allows it; otherwise (zpaq) they are reassembled
+  // next to the output directory and the copy is removed on exit
+  let archive = volumeIndex ? volumeInput(volumeIndexPath!, volumeIndex, backend) : await archiveFileInput(resolvedArchivePath);
+  if (!archive) {
+    if (options.dryRun) {
+      console.error(`Error: ${backend.tool} can only read ${volumeIndex!.archive} once its volumes are reassembled, which a dry run does not do`);
+      console.error('Run without --dry-run, or reassemble the volumes first (e.g. with cat)');
+      process.exit(1);
+    }
+    resolvedArchivePath = join(dirname(outputPath), `.${process.pid}.${volumeIndex!.archive}`);
+    process.once('exit', () => rmSync(resolvedArchivePath, { force: true }));
+    console.log(`Reassembling ${volumeIndex!.archive}...`);
+    try {
+      await joinVolumes(volumeIndexPath!, volumeIndex!, resolvedArchivePath);
+    } catch (error) {
+      console.error(`Error reassembling volumes: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    console.log(`✓ Reassembled ${volumeIndex!.volumes.length} volumes`);
+    archive = await archiveFileInput(resolvedArchivePath);
+  }
   
-  console.log('Extracting with zpaq...');
-  console.log(`Command: ${command}`);
-  console.log(`Working directory: ${outputPath}`);
+  // Pick the requested version; its metadata.csv snapshot is extracted along with it
+  const selected = options.version !== undefined || options.until !== undefined
+    ? selectArchiveVersion(readArchiveVersions(backend, archive.path, options.password), options)
+    : null;
+  if (selected) {
+    console.log(`Extracting version ${selected.version.number} (${selected.version.date})`);
+  }
   
-  try {
-    execSync(command, { 
-      cwd: outputPath,
-      stdio: 'inherit',
-      maxBuffer: 1024 * 1024 * 100, // 100MB buffer
-      encoding: 'utf8'
+  if (options.dryRun) {
+    await previewArchiveMerge(backend, archive, outputPath, options, selected?.untilArgument);
+    return;
+  }
+  
+  // Translate --include/--exclude into archive paths below each archive root; metadata.csv and the manifest are always extracted
+  let archiveRoots: ArchiveRoot[] | null = null;
+  const includes: string[] = [];
+  const excludes: string[] = [];
+  if (selective) {
+    archiveRoots = findArchiveRoots(backend, archive, options.password);
+    if (archiveRoots.length === 0) {
+      console.error('Error: Could not find metadata.csv in the archive root, selective extraction is not possible');
+      process.exit(1);
+    }
+    
+    // Unsupported patterns do not depend on the root, so they are reported once
+    const includeMatcher = options.include?.length ? createIgnoreMatcher(parseIgnoreRules(options.include)) : null;
+    const excludeMatcher = options.exclude?.length ? createIgnoreMatcher(parseIgnoreRules(options.exclude)) : null;
+    let unsupportedExcludes: string[] = [];
+    if (includeMatcher) {
+      includes.push(MANIFEST_PATH);
+    }
+    for (const { name } of archiveRoots) {
+      if (includeMatcher) {
+        // Include patterns may match more than the rules; such extra entries are extracted without restored timestamps
+        const translated = toArchivePatterns(includeMatcher, name, true);
+        if (translated.unsupported.length > 0) {
+          console.error(`Error: ${backend.tool} cannot express these --include patterns: ${translated.unsupported.join(', ')}`);
+          process.exit(1);
+        }
+        includes.push(`${name}/metadata.csv`, stagedMetadataPath(name), ...translated.patterns);
+      }
+      
+      if (excludeMatcher) {
+        const translated = toArchivePatterns(excludeMatcher, name);
+        unsupportedExcludes = translated.unsupported;
+        excludes.push(...translated.patterns);
+      }
+    }
+    if (unsupportedExcludes.length > 0) {
+      console.warn(`Warning: ${backend.tool} cannot express these --exclude patterns, they only apply to metadata: ${unsupportedExcludes.join(', ')}`);
+    }
+  }
+  
+  const request: ExtractRequest = {
+    archivePath: archive.path,
+    includes,
+    excludes,
+    until: selected?.untilArgument,
+    password: options.password
+  };
+  const commands = options.resume
+    ? await planResumedExtraction(backend, archive, request, outputPath, options)
+    : [backend.extractCommand(request)];
+  
+  // A merge extracts into a staging directory first, so conflicts are resolved with restored timestamps
+  const extractPath = options.merge ? join(outputPath, `${MERGE_STAGING_PREFIX}${process.pid}`) : outputPath;
+  if (options.merge) {
+    await fs.mkdir(extractPath);
+    process.once('exit', () => rmSync(extractPath, { recursive: true, force: true }));
+  } else if (!options.resume) {
+    // The staging directory of a merge is removed on exit, so only direct extractions can be resumed
+    await writeExtractionJournal(outputPath, {
+      archive: archiveBasename,
+      archiveSize,
+      format: backend.format,
+      selection: { version: options.version, until: options.until, include: options.include, exclude: options.exclude }
     });
+  }
+  
+  console.log(`Extracting with ${backend.tool}...`);
+  console.log(`Working directory: ${extractPath}`);
+  
+  try {
+    for (const [index, command] of commands.entries()) {
+      if (commands.length > 1) {
+        console.log(`Part ${index + 1} of ${commands.length}`);
+      }
+      console.log(`Command: ${redactKey(command, options.password)}`);
+      
+      // Progress is measured against the archive size, either by the archiver or by the bytes piped into it
+      const result = await runWithProgress(command, extractPath, {
+        totalBytes: archive.size,
+        parse: backend.parseProgress,
+        stdinFiles: backend.extractsFromStdin ? archive.files : undefined
+      });
+      if (result.interrupted) {
+        // Partially extracted files may sit next to existing ones, so they are marked rather than removed
+        await fs.writeFile(join(outputPath, INCOMPLETE_MARKER),
+          `Extraction of ${archivePath} was interrupted at ${toISOString(new Date())}; files here may be missing or truncated\n`);
+        console.error(`⚠️  Extraction cancelled, ${outputPath} is incomplete (marked with ${INCOMPLETE_MARKER}) and timestamps were not restored`);
+        if (!options.merge) {
+          console.error('   Rerun with --resume to extract only what is missing');
+        }
+        process.exit(INTERRUPTED_EXIT_CODE);
+      }
+      // Include patterns that match nothing make some tools fail after extracting everything else
+      if (result.status !== 0 && !backend.isMissingMatchOnly?.(result.stderr)) {
+        console.error(`Error during extraction: ${backend.tool} exited with code ${result.status}`);
+        const keyError = describeKeyError(result.stderr, options.password);
+        if (keyError) {
+          console.error(keyError);
+        }
+        process.exit(1);
+      }
+    }
     
-    console.log(`✓ Archive extracted to: ${outputPath}`);
+    console.log(`✓ Archive extracted to: ${extractPath}`);
     
-    // Find the extracted folder (zpaq extracts to a subdirectory)
-    const contents = await fs.readdir(outputPath);
+    // The journal and marker are not part of the archive
+    const contents = (await fs.readdir(extractPath)).filter(item => item !== EXTRACTION_JOURNAL && item !== INCOMPLETE_MARKER);
     if (contents.length === 0) {
       console.error('Error: No files were extracted from the archive');
       process.exit(1);
     }
     
-    // Find the extracted folder (should be a directory)
-    let metadataFolder = outputPath;
-    for (const item of contents) {
-      const itemPath = join(outputPath, item);
-      try {
-        const stats = await fs.stat(itemPath);
-        if (stats.isDirectory()) {
-          metadataFolder = itemPath;
-          break;
-        }
-      } catch {
-        // Skip files that can't be stat'd
+    // The manifest names every archived folder; older archives fall back to the roots found in the listing or on disk
+    const manifest = await readArchiveManifest(extractPath);
+    const listedRoots = manifest?.roots ?? archiveRoots ?? await findExtractedRoots(extractPath);
+    const roots: ArchiveRoot[] = [];
+    for (const root of listedRoots) {
+      if (await fs.access(join(extractPath, root.metadata)).then(() => true, () => false)) {
+        roots.push(root);
+      } else {
+        console.warn(`Warning: ${root.metadata} was not extracted, timestamps of ${root.name} are not restored`);
       }
     }
-    
-    // Check if metadata.csv exists in the extracted content
-    const metadataPath = join(metadataFolder, 'metadata.csv');
-    try {
-      await fs.access(metadataPath);
-    } catch {
+    if (roots.length === 0) {
       console.error('Error: metadata.csv not found in extracted archive');
-      console.error(`Expected location: ${metadataPath}`);
+      console.error(`Expected a folder with a metadata.csv (or ${stagedMetadataPath('<folder>')}) in ${extractPath}`);
       process.exit(1);
     }
     
-    // Restore timestamps
-    await restoreTimestamps(metadataFolder);
+    for (const [index, root] of roots.entries()) {
+      const metadataPath = join(extractPath, root.metadata);
+      if (index === 0) {
+        const compression = parseCompressionSettings((await readMetadataProperties(metadataPath))[COMPRESSION_PROPERTY] ?? '');
+        if (compression) {
+          console.log(`Archive was compressed with ${formatCompressionSettings(compression)}`);
+        }
+      }
+      if (roots.length > 1) {
+        console.log(`\n📁 ${root.name} (${index + 1} of ${roots.length})`);
+      }
+      
+      // Restore timestamps
+      await restoreTimestamps(join(extractPath, root.name), metadataPath, options);
+    }
+    
+    if (!options.merge) {
+      await removeExtractionJournal(outputPath);
+      await fs.rm(join(outputPath, INCOMPLETE_MARKER), { force: true });
+    }
+    
+    if (options.merge) {
+      console.log(`Merging into ${outputPath} (${options.merge})...`);
+      const summary = await mergeExtracted(extractPath, outputPath, options.merge);
+      await fs.rm(extractPath, { recursive: true, force: true });
+      printMergeSummary(summary, options.merge, false);
+    }
     
   } catch (error) {
     console.error('Error during extraction:', error);
@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { FileMetadata, RestoreFailure, RestoreTimesOptions } from './types.js';
+import { readMetadataFile } from './metadata.js';
+import { collectFolderMetadata } from './scanner.js';
+import { timestampDifferenceNs } from './timestamps.js';
+import { findTimestampDrift, reportRestoreFailures, reportTimestampDrift, setFileTimestamps } from './restorer.js';
+
+/**
+ * Re-apply the timestamps of a metadata.csv to a folder copied without them (rsync, git checkout, ...)
+ */
+
+/**
+ * Print up to `limit` items of a report category
+ */
+function printCategory(title: string, lines: string[], limit: number = 20): void {
+  if (lines.length === 0) {
+    return;
+  }
+
+  console.log(`\n${title} (${lines.length}):`);
+  lines.slice(0, limit).forEach(line => console.log(`   • ${line}`));
+  if (lines.length > limit) {
+    console.log(`   ... and ${lines.length - limit} more`);
+  }
+}
+
+/**
+ * Remap a metadata path: drop `strip` leading components, then prepend `prefix`
+ * Returns null when stripping leaves nothing
+ */
+function remapPath(path: string, strip: number, prefix: string): string | null {
+  const parts = path.split('/').slice(strip);
+  if (parts.length === 0) {
+    return null;
+  }
+  return prefix ? `${prefix}/${parts.join('/')}` : parts.join('/');
+}
+
+/**
+ * Check whether the times on disk differ from an entry's recorded times
+ */
+function needsUpdate(entry: FileMetadata, onDisk: FileMetadata): boolean {
+  return timestampDifferenceNs(entry.modifiedTime, onDisk.modifiedTime) !== 0n ||
+    (entry.accessTime !== undefined && onDisk.accessTime !== undefined &&
+      timestampDifferenceNs(entry.accessTime, onDisk.accessTime) !== 0n);
+}
+
+/**
+ * Apply modification and access times from metadata.csv to the matching entries of a folder
+ * Only existing entries of the recorded type are touched; nothing is created or removed.
+ * Rows without a matching entry and entries without a row are reported
+ */
+export async function restoreTimes(folderPath: string, options: RestoreTimesOptions = {}): Promise<void> {
+  const resolvedPath = resolve(folderPath);
+  const metadataPath = options.metadata ? resolve(options.metadata) : join(resolvedPath, 'metadata.csv');
+  const strip = options.strip ?? 0;
+  const prefix = (options.prefix ?? '').replace(/^\/+|\/+$/g, '');
+
+  const isDirectory = await fs.stat(resolvedPath).then(stats => stats.isDirectory(), () => false);
+  if (!isDirectory) {
+    console.error(`Error: ${resolvedPath} is not a directory`);
+    process.exit(1);
+  }
+  if (!(await fs.access(metadataPath).then(() => true, () => false))) {
+    console.error(`Error: Metadata file ${metadataPath} not found`);
+    process.exit(1);
+  }
+
+  console.log(`Applying ${metadataPath} to ${resolvedPath}${options.dryRun ? ' (dry run)' : ''}`);
+  if (strip > 0 || prefix) {
+    const steps = [strip > 0 ? `strip ${strip} leading components` : '', prefix ? `prefix "${prefix}/"` : ''].filter(Boolean);
+    console.log(`  Remapping metadata paths: ${steps.join(', then ')}`);
+  }
+
+  const recorded = await readMetadataFile(metadataPath);
+  if (recorded.length === 0) {
+    console.error(`Error: ${metadataPath} has no entries`);
+    process.exit(1);
+  }
+
+  const entries: FileMetadata[] = [];
+  let strippedCount = 0;
+  for (const entry of recorded) {
+    const path = remapPath(entry.path, strip, prefix);
+    if (path === null) {
+      strippedCount++;
+    } else {
+      entries.push({ ...entry, path });
+    }
+  }
+
+  // Only entries below the prefix can be covered by the metadata
+  const onDisk = (await collectFolderMetadata(resolvedPath))
+    .filter(entry => !prefix || entry.path.startsWith(`${prefix}/`));
+  const onDiskByPath = new Map(onDisk.map(entry => [entry.path, entry]));
+  const recordedPaths = new Set(entries.map(entry => entry.path));
+
+  const unmatchedRows: string[] = [];
+  const outdated: FileMetadata[] = [];
+  let unchangedCount = 0;
+  for (const entry of entries) {
+    const existing = onDiskByPath.get(entry.path);
+    if (!existing) {
+      unmatchedRows.push(`${entry.path} (not found)`);
+    } else if (existing.type !== entry.type) {
+      unmatchedRows.push(`${entry.path} (recorded as ${entry.type}, found ${existing.type})`);
+    } else if (needsUpdate(entry, existing)) {
+      outdated.push(entry);
+    } else {
+      unchangedCount++;
+    }
+  }
+  const unmatchedFiles = onDisk.filter(entry => !recordedPaths.has(entry.path)).map(entry => entry.path);
+
+  printCategory('❓ Metadata rows without a matching entry', unmatchedRows);
+  printCategory('❓ Entries without a metadata row', unmatchedFiles);
+  if (strippedCount > 0) {
+    console.log(`\n  ${strippedCount} rows had no path left after --strip ${strip} and were ignored`);
+  }
+
+  if (options.dryRun) {
+    printCategory('🕒 Would update', outdated.map(entry => entry.path));
+  } else {
+    // Directories last and deepest first, so their times are not changed by work inside them
+    const depth = (entry: FileMetadata) => entry.path.split('/').length;
+    const ordered = [
+      ...outdated.filter(entry => entry.type !== 'directory'),
+      ...outdated.filter(entry => entry.type === 'directory').sort((a, b) => depth(b) - depth(a))
+    ];
+
+    const failures: RestoreFailure[] = [];
+    for (const entry of ordered) {
+      await setFileTimestamps(join(resolvedPath, entry.path), entry, failures);
+    }
+    reportRestoreFailures(failures);
+    reportTimestampDrift(await findTimestampDrift(resolvedPath, ordered));
+  }
+
+  console.log('\n' + '═'.repeat(80));
+  console.log(`${options.dryRun ? '🔍 Would update' : '✅ Updated'} ${outdated.length} entries, ${unchangedCount} already up to date`);
+  console.log(`   ${unmatchedRows.length} unmatched metadata rows, ${unmatchedFiles.length} entries without metadata`);
+  console.log('═'.repeat(80));
+}
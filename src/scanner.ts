@@ -1,344 +1,297 @@
-import { promises as fs } from 'fs';
+import { promises as fs, Dir, Dirent } from 'fs';
 import { join, relative, resolve } from 'path';
-import { execSync } from 'child_process';
-import { parse } from 'csv-parse/sync';
-import { stringify } from 'csv-stringify/sync';
-import { FileMetadata, ScanOptions } from './types.js';
-import { isSymlink, toISOString } from './utils.js';
-import { ALL_PATTERNS } from './patterns.js';
+import { ChangePolicy, EntryType, FileMetadata, MetadataStaleness, ScanOptions } from './types.js';
+import { askQuestion, createLimiter, toISOString } from './utils.js';
+import { ScanDiagnostics, createDiagnostics, printScanIssues, recordIssue, recordIssueWithAnalysis, writeScanReport } from './diagnostics.js';
+import { IgnoreMatcher, isPathIgnored, loadIgnoreMatcher } from './ignore.js';
+import { compareMetadataPaths, createSortedMetadataWriter, hashFile, isSpecialEntryType, metadataFromStats, readMetadataFile } from './metadata.js';
+import { timestampDifferenceNs } from './timestamps.js';
+
+/** Default number of concurrent readdir/stat calls during a scan */
+const DEFAULT_SCAN_CONCURRENCY = 32;
+
+/** Directory entries handled together while reading a directory */
+const ENTRY_BATCH_SIZE = 256;
+
+/** Default maximum directory depth before a subtree is skipped */
+const DEFAULT_MAX_DEPTH = 50;
 
 /**
- * Run a diagnostic command and capture its output safely
+ * Settings for a folder walk
  */
-function runDiagnosticCommand(command: string, description: string): string {
-  try {
-    const output = execSync(command, { 
-      encoding: 'utf-8', 
-      timeout: 10000, // 10 second timeout
-      maxBuffer: 1024 * 1024 // 1MB buffer
-    });
-    return output.trim();
-  } catch (error) {
-    return `Failed to run ${description}: ${(error as Error).message}`;
-  }
+interface WalkOptions {
+  existingPaths: Set<string>;
+  ignore: IgnoreMatcher;
+  concurrency: number;
+  maxDepth: number;
+  onEntry: (entry: FileMetadata) => Promise<void>;
+  onIgnored?: (relativePath: string) => void; // paths left out by the ignore rules (not descended into)
 }
 
 /**
- * Analyze a problematic directory and provide detailed diagnostics
+ * A directory waiting to be read
  */
-async function analyzeProblematicDirectory(dirPath: string, basePath: string, issueType: string): Promise<string[]> {
-  const relativePath = relative(basePath, dirPath);
-  const analysis: string[] = [];
-  
-  analysis.push(`\n🔍 Detailed analysis of problematic directory: '${relativePath}'`);
-  
-  try {
-    // Check if directory exists and get basic info
-    const stats = await fs.stat(dirPath);
-    analysis.push(`   📁 Type: ${stats.isDirectory() ? 'Directory' : stats.isFile() ? 'File' : 'Other'}`);
-    analysis.push(`   📏 Size: ${(stats.size / 1024).toFixed(2)} KB`);
-    analysis.push(`   📅 Modified: ${stats.mtime.toISOString()}`);
-  } catch (error) {
-    analysis.push(`   ❌ Cannot access: ${(error as Error).message}`);
-    return analysis;
-  }
-  
-  if (issueType.includes('STACK_OVERFLOW') || issueType.includes('DEEP_NESTING')) {
-    // Find deepest paths in this directory
-    analysis.push(`\n   🔍 Finding deepest nested paths...`);
-    const deepestPaths = runDiagnosticCommand(
-      `find "${dirPath}" -type d 2>/dev/null | head -20 | while read dir; do echo "$(echo "$dir" | tr '/' '\\n' | wc -l) $dir"; done | sort -nr | head -5`,
-      'deepest paths analysis'
-    );
-    if (deepestPaths && !deepestPaths.startsWith('Failed')) {
-      analysis.push(`   📊 Top 5 deepest paths:`);
-      deepestPaths.split('\n').forEach((line, index) => {
-        if (line.trim()) {
-          const [depth, ...pathParts] = line.trim().split(' ');
-          const path = pathParts.join(' ');
-          const relPath = relative(basePath, path);
-          analysis.push(`      ${index + 1}. Depth ${depth}: ${relPath}`);
-        }
-      });
-    } else {
-      analysis.push(`   ⚠️  ${deepestPaths}`);
-    }
-    
-    // Count total directories and files
-    const dirCount = runDiagnosticCommand(
-      `find "${dirPath}" -type d 2>/dev/null | wc -l`,
-      'directory count'
-    );
-    const fileCount = runDiagnosticCommand(
-      `find "${dirPath}" -type f 2>/dev/null | wc -l`,
-      'file count'
-    );
-    
-    analysis.push(`\n   📊 Contents summary:`);
-    analysis.push(`      Directories: ${dirCount.replace(/\s+/g, '')}`);
-    analysis.push(`      Files: ${fileCount.replace(/\s+/g, '')}`);
-    
-    // Check for suspicious patterns
-    analysis.push(`\n   🔍 Checking for common problematic patterns...`);
-    for (const pattern of ALL_PATTERNS) {
-      const count = runDiagnosticCommand(
-        `find "${dirPath}" -type d -name "*${pattern.pattern}*" 2>/dev/null | wc -l`,
-        `${pattern.pattern} directories`
-      );
-      const countNum = parseInt(count.replace(/\s+/g, ''));
-      if (countNum > 0) {
-        const categoryIcon = pattern.category === 'safe' ? '🟢' : pattern.category === 'careful' ? '🟡' : '🔴';
-        analysis.push(`      ${categoryIcon} Found ${countNum} ${pattern.description} directories (${pattern.pattern})`);
-        
-        // Show first few examples
-        const examples = runDiagnosticCommand(
-          `find "${dirPath}" -type d -name "*${pattern.pattern}*" 2>/dev/null | head -3`,
-          `${pattern.pattern} examples`
-        );
-        if (examples && !examples.startsWith('Failed')) {
-          examples.split('\n').forEach(example => {
-            if (example.trim()) {
-              const relExample = relative(basePath, example.trim());
-              analysis.push(`         📁 ${relExample}`);
-            }
-          });
-        }
-      }
-    }
-  }
-  
-  if (issueType.includes('CIRCULAR_SYMLINK')) {
-    // Analyze symlinks
-    analysis.push(`\n   🔗 Analyzing symlinks...`);
-    const symlinks = runDiagnosticCommand(
-      `find "${dirPath}" -type l -ls 2>/dev/null | head -10`,
-      'symlink analysis'
-    );
-    if (symlinks && !symlinks.startsWith('Failed') && symlinks.trim()) {
-      analysis.push(`   📊 Found symlinks:`);
-      symlinks.split('\n').forEach((line, index) => {
-        if (line.trim() && index < 5) {
-          analysis.push(`      ${index + 1}. ${line.trim()}`);
-        }
-      });
-    } else {
-      analysis.push(`   ✅ No symlinks found or ${symlinks}`);
-    }
-    
-    // Check for broken symlinks
-    const brokenSymlinks = runDiagnosticCommand(
-      `find "${dirPath}" -type l ! -exec test -e {} \\; -print 2>/dev/null | head -5`,
-      'broken symlinks'
-    );
-    if (brokenSymlinks && !brokenSymlinks.startsWith('Failed') && brokenSymlinks.trim()) {
-      analysis.push(`\n   💔 Broken symlinks found:`);
-      brokenSymlinks.split('\n').forEach((line, index) => {
-        if (line.trim()) {
-          const relPath = relative(basePath, line.trim());
-          analysis.push(`      ${index + 1}. ${relPath}`);
-        }
-      });
-    }
-  }
-  
-  if (issueType.includes('PERMISSION_DENIED')) {
-    // Check permissions
-    analysis.push(`\n   🔒 Permission analysis...`);
-    const permissions = runDiagnosticCommand(
-      `ls -la "${dirPath}" 2>/dev/null | head -10`,
-      'permission check'
-    );
-    if (permissions && !permissions.startsWith('Failed')) {
-      analysis.push(`   📋 Directory permissions:`);
-      permissions.split('\n').slice(0, 5).forEach(line => {
-        if (line.trim()) {
-          analysis.push(`      ${line.trim()}`);
-        }
-      });
-    }
-  }
-  
-  return analysis;
+interface DirectoryTask {
+  path: string;
+  depth: number;
 }
 
 /**
- * Recursively scan a directory and collect file metadata
+ * Walk a folder with an explicit work queue instead of recursion
+ * Directories are processed by a bounded pool of workers, every readdir/stat call goes
+ * through a shared limiter, and directory cycles are detected by device+inode
  */
-async function scanDirectory(
-  dirPath: string,
-  basePath: string,
-  existingFiles: Set<string>,
-  visitedPaths: Set<string> = new Set(),
-  depth: number = 0,
-  maxDepth: number = 50,
-  diagnostics: { skippedPaths: string[]; issues: string[]; detailedAnalysis: string[] } = { skippedPaths: [], issues: [], detailedAnalysis: [] }
-): Promise<FileMetadata[]> {
-  const entries: FileMetadata[] = [];
+async function walkFolder(basePath: string, options: WalkOptions, diagnostics: ScanDiagnostics): Promise<void> {
+  const limit = createLimiter(options.concurrency);
+  const visitedDirectories = new Map<string, string>();
+  const queue: DirectoryTask[] = [{ path: basePath, depth: 0 }];
   
-  // Prevent infinite recursion with depth limit
-  if (depth > maxDepth) {
-    const relativePath = relative(basePath, dirPath);
-    diagnostics.skippedPaths.push(relativePath);
-    diagnostics.issues.push(`DEEP_NESTING: Directory '${relativePath}' exceeds maximum depth of ${maxDepth} levels. This may indicate a circular symlink or extremely deep folder structure.`);
-    return entries;
-  }
-  
-  // Resolve real path to handle symlinks properly
-  let realPath: string;
-  try {
-    realPath = await fs.realpath(dirPath);
-  } catch (error) {
-    const relativePath = relative(basePath, dirPath);
-    diagnostics.skippedPaths.push(relativePath);
-    diagnostics.issues.push(`PERMISSION_DENIED: Cannot access directory '${relativePath}'. Check file permissions or run with appropriate privileges.`);
-    return entries;
-  }
-  
-  // Check for circular references
-  if (visitedPaths.has(realPath)) {
-    const relativePath = relative(basePath, dirPath);
-    diagnostics.skippedPaths.push(relativePath);
-    const issueType = 'CIRCULAR_SYMLINK';
-    diagnostics.issues.push(`${issueType}: Circular symlink detected at '${relativePath}' -> '${relative(basePath, realPath)}'. Consider removing or fixing the symlink.`);
+  const processDirectory = async (task: DirectoryTask): Promise<void> => {
+    const relativeDirPath = relative(basePath, task.path);
     
-    // Perform detailed analysis for circular symlinks
+    // Prevent runaway trees with a depth limit
+    if (task.depth > options.maxDepth) {
+      await recordIssueWithAnalysis(diagnostics, 'DEEP_NESTING', task.path, basePath,
+        `Directory '${relativeDirPath}' exceeds maximum depth of ${options.maxDepth} levels. This may indicate a circular reference or extremely deep folder structure.`);
+      return;
+    }
+    
+    // Check for cycles (e.g. bind mounts) by device+inode
+    let dirStats;
     try {
-      const analysis = await analyzeProblematicDirectory(dirPath, basePath, issueType);
-      diagnostics.detailedAnalysis.push(...analysis);
-    } catch (analysisError) {
-      diagnostics.detailedAnalysis.push(`Failed to analyze ${relativePath}: ${(analysisError as Error).message}`);
+      dirStats = await limit(() => fs.stat(task.path));
+    } catch (error) {
+      await recordIssueWithAnalysis(diagnostics, 'PERMISSION_DENIED', task.path, basePath,
+        `Cannot access directory '${relativeDirPath}': ${(error as Error).message || error}`);
+      return;
     }
     
-    return entries;
-  }
-  
-  // Mark this path as visited
-  visitedPaths.add(realPath);
-  
-  try {
-    const items = await fs.readdir(dirPath, { withFileTypes: true });
+    const inodeKey = `${dirStats.dev}:${dirStats.ino}`;
+    const firstSeenAt = visitedDirectories.get(inodeKey);
+    if (firstSeenAt !== undefined) {
+      await recordIssueWithAnalysis(diagnostics, 'DIRECTORY_CYCLE', task.path, basePath,
+        `Directory cycle detected at '${relativeDirPath}', which is the same directory as '${firstSeenAt}'.`, firstSeenAt);
+      return;
+    }
+    visitedDirectories.set(inodeKey, relativeDirPath);
     
-    for (const item of items) {
-      const fullPath = join(dirPath, item.name);
+    let dir: Dir;
+    try {
+      dir = await limit(() => fs.opendir(task.path));
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code === 'EACCES' ? 'PERMISSION_DENIED' : 'DIRECTORY_READ_ERROR';
+      await recordIssueWithAnalysis(diagnostics, code, task.path, basePath,
+        `Cannot read directory '${relativeDirPath}': ${(error as Error).message || error}`);
+      return;
+    }
+    
+    const processEntry = async (item: Dirent): Promise<void> => {
+      const fullPath = join(task.path, item.name);
       const relativePath = relative(basePath, fullPath);
       
-      // Skip symlinks
-      if (item.isSymbolicLink() || isSymlink(item.name)) {
-        continue;
-      }
-      
       // Skip metadata.csv to avoid circular reference
       if (item.name === 'metadata.csv') {
-        continue;
+        return;
+      }
+      
+      // Excluded by .paqtignore or --exclude; ignored directories are not descended into
+      if (options.ignore.isIgnored(relativePath, item.isDirectory())) {
+        options.onIgnored?.(relativePath);
+        return;
       }
       
+      // Queue subdirectories; symlinks to directories are recorded as links, not followed
       if (item.isDirectory()) {
-        // Recursively scan subdirectories with updated depth and visited paths
-        try {
-          const subEntries = await scanDirectory(
-            fullPath, 
-            basePath, 
-            existingFiles, 
-            new Set(visitedPaths), // Pass a copy to avoid sharing state between siblings
-            depth + 1, 
-            maxDepth,
-            diagnostics
-          );
-          entries.push(...subEntries);
-        } catch (error) {
-          const relativePath = relative(basePath, fullPath);
-          diagnostics.skippedPaths.push(relativePath);
-          
-          if (error instanceof RangeError && error.message.includes('Maximum call stack')) {
-            const issueType = 'STACK_OVERFLOW';
-            diagnostics.issues.push(`${issueType}: Directory '${relativePath}' contains extremely deep nesting that causes stack overflow. This likely indicates a problematic symlink structure. Check for symlinks with: 'find "${fullPath}" -type l -ls'`);
-            
-            // Perform detailed analysis asynchronously
-            try {
-              const analysis = await analyzeProblematicDirectory(fullPath, basePath, issueType);
-              diagnostics.detailedAnalysis.push(...analysis);
-            } catch (analysisError) {
-              diagnostics.detailedAnalysis.push(`Failed to analyze ${relativePath}: ${(analysisError as Error).message}`);
-            }
-          } else {
-            const issueType = 'SCAN_ERROR';
-            diagnostics.issues.push(`${issueType}: Failed to scan directory '${relativePath}': ${(error as Error).message || error}. Check file permissions and disk integrity.`);
-            
-            // Perform detailed analysis for permission errors
-            if ((error as Error).message?.includes('permission') || (error as Error).message?.includes('EACCES')) {
-              try {
-                const analysis = await analyzeProblematicDirectory(fullPath, basePath, 'PERMISSION_DENIED');
-                diagnostics.detailedAnalysis.push(...analysis);
-              } catch (analysisError) {
-                diagnostics.detailedAnalysis.push(`Failed to analyze ${relativePath}: ${(analysisError as Error).message}`);
-              }
-            }
-          }
-          // Continue processing other directories instead of crashing
-        }
-      } else if (item.isFile()) {
-        // Skip if this file already exists (for append-only mode)
-        if (existingFiles.has(relativePath)) {
-          continue;
+        queue.push({ path: fullPath, depth: task.depth + 1 });
+      }
+      
+      // Skip if this entry already exists (for append-only mode)
+      if (options.existingPaths.has(relativePath)) {
+        return;
+      }
+      
+      try {
+        const stats = await limit(() => fs.lstat(fullPath, { bigint: true }));
+        const entry = metadataFromStats(relativePath, stats);
+        if (item.isSymbolicLink()) {
+          entry.linkTarget = await limit(() => fs.readlink(fullPath));
         }
-        
-        try {
-          const stats = await fs.stat(fullPath);
-          entries.push({
-            path: relativePath,
-            modifiedTime: toISOString(stats.mtime)
-          });
-        } catch (error) {
-          diagnostics.skippedPaths.push(relativePath);
-          diagnostics.issues.push(`FILE_ACCESS_ERROR: Cannot read file '${relativePath}': ${(error as Error).message || error}. Check file permissions or if the file still exists.`);
-          // Continue processing other files
+        if (isSpecialEntryType(entry.type)) {
+          recordIssue(diagnostics, 'SPECIAL_FILE', relativePath,
+            `'${relativePath}' is a ${entry.type}${entry.deviceMajor !== undefined ? ` (${entry.deviceMajor}:${entry.deviceMinor})` : ''}; its contents are not archived`);
         }
+        await options.onEntry(entry);
+      } catch (error) {
+        recordIssue(diagnostics, 'FILE_ACCESS_ERROR', relativePath,
+          `Cannot read '${relativePath}': ${(error as Error).message || error}`);
+      }
+    };
+    
+    // Entries are read and handled in fixed-size batches, so huge directories do not pile up pending work
+    let batch: Dirent[] = [];
+    for await (const item of dir) {
+      batch.push(item);
+      if (batch.length >= ENTRY_BATCH_SIZE) {
+        await Promise.all(batch.map(processEntry));
+        batch = [];
       }
     }
-  } catch (error) {
-    const relativePath = relative(basePath, dirPath);
-    diagnostics.skippedPaths.push(relativePath);
-    diagnostics.issues.push(`DIRECTORY_READ_ERROR: Cannot read directory '${relativePath}': ${(error as Error).message || error}. Check permissions and disk integrity.`);
-    // Don't exit the process, just skip this directory
-  }
+    await Promise.all(batch.map(processEntry));
+  };
+  
+  // Worker pool over the directory queue; depth-first keeps the queue small
+  await new Promise<void>((resolveWalk, rejectWalk) => {
+    let active = 0;
+    
+    const pump = () => {
+      while (active < options.concurrency && queue.length > 0) {
+        const task = queue.pop()!;
+        active++;
+        processDirectory(task)
+          .then(() => {
+            active--;
+            pump();
+          })
+          .catch(rejectWalk);
+      }
+      if (active === 0 && queue.length === 0) {
+        resolveWalk();
+      }
+    };
+    
+    pump();
+  });
+}
+
+/**
+ * Collect metadata for every entry currently on disk under a folder
+ * Used to compare a folder against its metadata.csv without rewriting it,
+ * and to compute totals that honour .paqtignore
+ */
+export async function collectFolderMetadata(folderPath: string, ignore?: IgnoreMatcher): Promise<FileMetadata[]> {
+  const resolvedPath = resolve(folderPath);
+  const entries: FileMetadata[] = [];
+  const diagnostics = createDiagnostics();
   
-  // Remove from visited paths when done (for cleanup)
-  visitedPaths.delete(realPath);
+  await walkFolder(resolvedPath, {
+    existingPaths: new Set(),
+    ignore: ignore ?? await loadIgnoreMatcher(resolvedPath),
+    concurrency: DEFAULT_SCAN_CONCURRENCY,
+    maxDepth: DEFAULT_MAX_DEPTH,
+    onEntry: async entry => {
+      entries.push(entry);
+    }
+  }, diagnostics);
   
-  return entries;
+  return entries.sort(compareMetadataPaths);
 }
 
 /**
- * Load existing metadata from CSV file
+ * Find the paths under a folder that its ignore rules leave out, ignored directories as a whole
+ * Used to exclude exactly these paths when the rules cannot be given to an archiver as patterns
  */
-async function loadExistingMetadata(csvPath: string): Promise<FileMetadata[]> {
-  try {
-    const csvContent = await fs.readFile(csvPath, 'utf-8');
-    const records = parse(csvContent, {
-      columns: true,
-      skip_empty_lines: true
-    });
+export async function findIgnoredPaths(folderPath: string, ignore: IgnoreMatcher): Promise<string[]> {
+  const ignoredPaths: string[] = [];
+  
+  await walkFolder(resolve(folderPath), {
+    existingPaths: new Set(),
+    ignore,
+    concurrency: DEFAULT_SCAN_CONCURRENCY,
+    maxDepth: DEFAULT_MAX_DEPTH,
+    onEntry: async () => {},
+    onIgnored: relativePath => {
+      ignoredPaths.push(relativePath);
+    }
+  }, createDiagnostics());
+  
+  return ignoredPaths.sort();
+}
+
+/**
+ * Check whether an entry differs from its previous metadata in a way `scan --update` cares about
+ */
+function hasEntryChanged(previous: FileMetadata, current: FileMetadata): boolean {
+  return previous.type !== current.type ||
+    timestampDifferenceNs(previous.modifiedTime, current.modifiedTime) !== 0n ||
+    (previous.size !== undefined && previous.size !== current.size) ||
+    previous.linkTarget !== current.linkTarget;
+}
+
+/**
+ * Check whether a path is (or is inside) one of the skipped paths
+ */
+function isBelowSkippedPath(path: string, skippedPaths: string[]): boolean {
+  return skippedPaths.some(skipped => skipped === '' || path === skipped || path.startsWith(`${skipped}/`));
+}
+
+/**
+ * Apply the change policy to changed entries
+ * `keep` preserves the previously recorded timestamps, `new` takes the current ones
+ */
+async function resolveChangedEntries(
+  changed: Array<{ previous: FileMetadata; current: FileMetadata }>,
+  policy: ChangePolicy
+): Promise<{ entries: FileMetadata[]; keptCount: number }> {
+  const entries: FileMetadata[] = [];
+  let keptCount = 0;
+  let remainingPolicy = policy;
+  
+  if (policy === 'ask' && changed.length > 0 && !process.stdin.isTTY) {
+    console.error('Error: --on-change ask requires an interactive terminal');
+    process.exit(1);
+  }
+  
+  for (const { previous, current } of changed.sort((a, b) => compareMetadataPaths(a.current, b.current))) {
+    let keep = remainingPolicy === 'keep';
     
-    return records.map((record: any) => ({
-      path: record.path,
-      modifiedTime: record.modifiedTime
-    }));
-  } catch (error) {
-    // File doesn't exist or is invalid, return empty array
-    return [];
+    if (remainingPolicy === 'ask') {
+      console.log(`\n✏️  Changed: ${current.path}`);
+      console.log(`   Recorded: ${previous.modifiedTime}${previous.size !== undefined ? ` (${previous.size} bytes)` : ''}`);
+      console.log(`   On disk:  ${current.modifiedTime}${current.size !== undefined ? ` (${current.size} bytes)` : ''}`);
+      const answer = await askQuestion('   [k]eep old timestamp, take [n]ew, [K]eep all, [N]ew all? ');
+      if (answer === 'K') {
+        remainingPolicy = 'keep';
+      } else if (answer === 'N') {
+        remainingPolicy = 'new';
+      }
+      keep = answer === 'k' || answer === 'K';
+    }
+    
+    if (keep) {
+      entries.push({
+        ...current,
+        modifiedTime: previous.modifiedTime,
+        accessTime: previous.accessTime,
+        birthTime: previous.birthTime
+      });
+      keptCount++;
+    } else {
+      entries.push(current);
+    }
   }
+  
+  return { entries, keptCount };
 }
 
 /**
- * Write metadata to CSV file
+ * Print the added/changed/removed summary of an update scan
  */
-async function writeMetadata(csvPath: string, metadata: FileMetadata[]): Promise<void> {
-  const csvContent = stringify(metadata, {
-    header: true,
-    columns: ['path', 'modifiedTime']
-  });
+function printUpdateSummary(
+  addedCount: number,
+  changed: Array<{ previous: FileMetadata; current: FileMetadata }>,
+  keptCount: number,
+  removedPaths: string[]
+): void {
+  console.log('\n📊 Update summary:');
+  console.log(`   ➕ Added: ${addedCount}`);
+  console.log(`   ✏️  Changed: ${changed.length} (${keptCount} kept old timestamps, ${changed.length - keptCount} took new timestamps)`);
+  console.log(`   ➖ Removed: ${removedPaths.length}`);
   
-  await fs.writeFile(csvPath, csvContent, 'utf-8');
+  removedPaths.sort().slice(0, 10).forEach(path => console.log(`      • ${path}`));
+  if (removedPaths.length > 10) {
+    console.log(`      ... and ${removedPaths.length - 10} more`);
+  }
+  console.log('');
 }
 
 /**
@@ -346,6 +299,7 @@ async function writeMetadata(csvPath: string, metadata: FileMetadata[]): Promise
  */
 export async function scanFolder(folderPath: string, options: ScanOptions = {}): Promise<void> {
   const resolvedPath = resolve(folderPath);
+  const startedAt = toISOString(new Date());
   
   console.log(`Scanning folder: ${resolvedPath}`);
   
@@ -361,78 +315,191 @@ export async function scanFolder(folderPath: string, options: ScanOptions = {}):
     process.exit(1);
   }
   
-  const csvPath = join(resolvedPath, 'metadata.csv');
-  let allMetadata: FileMetadata[] = [];
-  let existingFiles = new Set<string>();
+  const csvPath = options.output ? resolve(options.output) : join(resolvedPath, 'metadata.csv');
+  const concurrency = options.concurrency ?? DEFAULT_SCAN_CONCURRENCY;
+  const hashLimit = createLimiter(concurrency);
+  const writer = await createSortedMetadataWriter(csvPath);
+  const ignore = await loadIgnoreMatcher(resolvedPath, options.exclude);
+  let existingPaths = new Set<string>();
+  
+  if (ignore.rules.length > 0) {
+    console.log(`Excluding paths matching ${ignore.rules.length} ignore rules`);
+  }
   
   if (options.appendOnly) {
     console.log('Loading existing metadata...');
-    const existingMetadata = await loadExistingMetadata(csvPath);
-    allMetadata = existingMetadata;
-    existingFiles = new Set(existingMetadata.map(m => m.path));
+    const existingMetadata = await readMetadataFile(csvPath);
+    existingPaths = new Set(existingMetadata.map(m => m.path));
+    for (const entry of existingMetadata) {
+      await writer.add(entry);
+    }
     console.log(`Found ${existingMetadata.length} existing entries`);
   }
   
-  console.log('Scanning files...');
-  const diagnostics: { skippedPaths: string[]; issues: string[]; detailedAnalysis: string[] } = { skippedPaths: [], issues: [], detailedAnalysis: [] };
-  const newMetadata = await scanDirectory(resolvedPath, resolvedPath, existingFiles, new Set(), 0, 50, diagnostics);
+  // Update mode reconciles against the existing metadata instead of skipping known paths
+  const previousEntries = new Map<string, FileMetadata>();
+  const changedEntries: Array<{ previous: FileMetadata; current: FileMetadata }> = [];
+  let addedCount = 0;
   
-  // Report any issues found during scanning
-  if (diagnostics.issues.length > 0) {
-    console.log(`\n⚠️  Issues encountered during scan (${diagnostics.skippedPaths.length} paths skipped):`);
-    console.log('═'.repeat(80));
-    
-    diagnostics.issues.forEach((issue, index) => {
-      console.log(`${index + 1}. ${issue}`);
-    });
-    
-    console.log('═'.repeat(80));
-    console.log('\n💡 Suggested fixes:');
-    
-    if (diagnostics.issues.some(i => i.includes('CIRCULAR_SYMLINK'))) {
-      console.log('   • For circular symlinks: Remove problematic symlinks or fix their targets');
-      console.log('   • Find symlinks: find /path/to/folder -type l -ls');
+  if (options.update) {
+    console.log('Loading existing metadata...');
+    for (const entry of await readMetadataFile(csvPath)) {
+      previousEntries.set(entry.path, entry);
     }
-    
-    if (diagnostics.issues.some(i => i.includes('STACK_OVERFLOW') || i.includes('DEEP_NESTING'))) {
-      console.log('   • For deep nesting/stack overflow: Check for broken symlinks creating infinite loops');
-      console.log('   • Find broken symlinks: find /path/to/folder -type l ! -exec test -e {} \\; -print');
+    console.log(`Found ${previousEntries.size} existing entries`);
+  }
+  
+  const counts: Record<EntryType, number> = { file: 0, directory: 0, symlink: 0, fifo: 0, socket: 0, 'block-device': 0, 'char-device': 0 };
+  let scannedCount = 0;
+  
+  console.log(`Scanning files${options.hash ? ' and computing content hashes' : ''}...`);
+  const diagnostics = createDiagnostics();
+  await walkFolder(resolvedPath, {
+    existingPaths,
+    ignore,
+    concurrency,
+    maxDepth: DEFAULT_MAX_DEPTH,
+    onEntry: async entry => {
+      scannedCount++;
+      if (scannedCount % 100000 === 0) {
+        console.log(`  Scanned ${scannedCount.toLocaleString()} entries...`);
+      }
+      
+      const previous = previousEntries.get(entry.path);
+      if (options.update) {
+        previousEntries.delete(entry.path);
+        if (previous && hasEntryChanged(previous, entry)) {
+          // Resolved after the walk so that `ask` can prompt one entry at a time
+          changedEntries.push({ previous, current: entry });
+          return;
+        }
+        if (!previous) {
+          addedCount++;
+        }
+      }
+      
+      if (entry.type === 'file' && previous?.hash && previous.size === entry.size) {
+        // Unchanged since the last scan, the stored hash is still valid (kept even without --hash)
+        entry.hash = previous.hash;
+      } else if (options.hash && entry.type === 'file') {
+        try {
+          entry.hash = await hashLimit(() => hashFile(join(resolvedPath, entry.path)));
+        } catch (error) {
+          console.warn(`Warning: Could not hash ${entry.path}: ${(error as Error).message}`);
+        }
+      }
+      
+      counts[entry.type]++;
+      await writer.add(entry);
     }
+  }, diagnostics);
+  
+  if (options.update) {
+    const policy = options.onChange ?? 'new';
+    const resolution = await resolveChangedEntries(changedEntries, policy);
     
-    if (diagnostics.issues.some(i => i.includes('PERMISSION_DENIED') || i.includes('FILE_ACCESS_ERROR'))) {
-      console.log('   • For permission errors: Check file ownership and permissions');
-      console.log('   • Fix permissions: chmod -R u+r /path/to/folder');
+    for (const entry of resolution.entries) {
+      if (options.hash && entry.type === 'file') {
+        try {
+          entry.hash = await hashFile(join(resolvedPath, entry.path));
+        } catch (error) {
+          console.warn(`Warning: Could not hash ${entry.path}: ${(error as Error).message}`);
+        }
+      }
+      counts[entry.type]++;
+      await writer.add(entry);
     }
     
-    console.log(`\n📁 Successfully scanned ${newMetadata.length} files, skipped ${diagnostics.skippedPaths.length} problematic paths`);
-    
-    // Display detailed analysis
-    if (diagnostics.detailedAnalysis.length > 0) {
-      console.log('\n' + '═'.repeat(80));
-      console.log('📋 DETAILED DIAGNOSTIC ANALYSIS');
-      console.log('═'.repeat(80));
-      diagnostics.detailedAnalysis.forEach(line => console.log(line));
-      console.log('═'.repeat(80));
+    // Entries below paths that could not be scanned are kept rather than treated as deleted;
+    // entries that are now ignored are dropped like vanished ones
+    const removedPaths: string[] = [];
+    for (const entry of previousEntries.values()) {
+      if (isBelowSkippedPath(entry.path, diagnostics.skippedPaths) && !isPathIgnored(ignore, entry.path, entry.type === 'directory')) {
+        counts[entry.type]++;
+        await writer.add(entry);
+      } else {
+        removedPaths.push(entry.path);
+      }
     }
     
-    console.log('');
+    printUpdateSummary(addedCount, changedEntries, resolution.keptCount, removedPaths);
   }
   
-  // Combine existing and new metadata
-  allMetadata.push(...newMetadata);
+  // Report any issues found during scanning
+  printScanIssues(diagnostics, scannedCount);
   
-  // Sort by path for consistent output
-  allMetadata.sort((a, b) => a.path.localeCompare(b.path));
+  const specialCount = counts.fifo + counts.socket + counts['block-device'] + counts['char-device'];
+  console.log(`Writing metadata for ${counts.file} files, ${counts.directory} directories, ${counts.symlink} symlinks` +
+    `${specialCount > 0 ? ` and ${specialCount} special files` : ''}...`);
+  const total = await writer.finish();
   
-  console.log(`Writing metadata for ${allMetadata.length} files...`);
-  await writeMetadata(csvPath, allMetadata);
+  console.log(`✓ Metadata saved to ${csvPath} (${total} entries)`);
   
-  console.log(`✓ Metadata saved to ${csvPath}`);
-  if (options.appendOnly && newMetadata.length > 0) {
-    console.log(`  Added ${newMetadata.length} new files`);
+  if (options.report) {
+    const reportPath = resolve(options.report);
+    await writeScanReport(reportPath, {
+      version: 1,
+      folder: resolvedPath,
+      startedAt,
+      finishedAt: toISOString(new Date()),
+      summary: {
+        entries: total,
+        files: counts.file,
+        directories: counts.directory,
+        symlinks: counts.symlink,
+        specialFiles: specialCount,
+        skippedPaths: diagnostics.skippedPaths.length,
+        errors: diagnostics.issues.filter(issue => issue.severity === 'error').length,
+        warnings: diagnostics.issues.filter(issue => issue.severity === 'warning').length
+      },
+      skippedPaths: diagnostics.skippedPaths,
+      issues: diagnostics.issues,
+      analyses: diagnostics.analyses
+    });
+    console.log(`✓ Scan report saved to ${reportPath}`);
+  }
+  if (options.appendOnly && scannedCount > 0) {
+    console.log(`  Added ${scannedCount} new entries`);
   }
 }
 
+/**
+ * Compare a folder with its metadata.csv
+ * Uses the same notion of a change as `scan --update`, so a fresh metadata.csv needs no update;
+ * the folder is walked and compared entry by entry, only the counts are kept
+ */
+export async function findStaleMetadata(folderPath: string, exclude?: string[]): Promise<MetadataStaleness> {
+  const resolvedPath = resolve(folderPath);
+  const recorded = new Map((await loadMetadata(resolvedPath)).map(entry => [entry.path, entry]));
+  const staleness: MetadataStaleness = { added: 0, changed: 0, removed: 0 };
+  
+  await walkFolder(resolvedPath, {
+    existingPaths: new Set(),
+    ignore: await loadIgnoreMatcher(resolvedPath, exclude),
+    concurrency: DEFAULT_SCAN_CONCURRENCY,
+    maxDepth: DEFAULT_MAX_DEPTH,
+    onEntry: async entry => {
+      const previous = recorded.get(entry.path);
+      if (!previous) {
+        staleness.added++;
+      } else if (hasEntryChanged(previous, entry)) {
+        staleness.changed++;
+      }
+      recorded.delete(entry.path);
+    }
+  }, createDiagnostics());
+  staleness.removed = recorded.size;
+  
+  return staleness;
+}
+
+/**
+ * Check whether a staleness check found any difference
+ */
+export function isMetadataStale(staleness: MetadataStaleness): boolean {
+  return staleness.added > 0 || staleness.changed > 0 || staleness.removed > 0;
+}
+
 /**
  * Check if metadata.csv exists in the given folder
  */
@@ -451,5 +518,5 @@ export async function hasMetadata(folderPath: string): Promise<boolean> {
  */
 export async function loadMetadata(folderPath: string): Promise<FileMetadata[]> {
   const csvPath = join(resolve(folderPath), 'metadata.csv');
-  return loadExistingMetadata(csvPath);
+  return readMetadataFile(csvPath);
 } 
\ No newline at end of file
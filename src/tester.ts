@@ -0,0 +1,258 @@
+import { promises as fs, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { ArchiveBackend, ArchiveInput, ArchiveRoot, SplitIndex, TestOptions, TestResult, TestStatus } from './types.js';
+import { hashFile, readMetadataFile } from './metadata.js';
+import { detectArchiveFormat, getBackend } from './backends/index.js';
+import { findArchiveRoots } from './lister.js';
+import { describeKeyError, isKeyError, redactKey } from './password.js';
+import { INTERRUPTED_EXIT_CODE, runWithProgress } from './progress.js';
+import { archiveFileInput, findVolumeIndex, findVolumeProblems, joinVolumes, readVolumeIndex, volumeInput } from './volumes.js';
+
+/** Exit code of `paqt test` for each outcome (1 is left for usage errors) */
+export const TEST_EXIT_CODES: Record<TestStatus, number> = {
+  pass: 0,
+  corrupt: 2,
+  'missing-metadata': 3,
+  'tool-error': 4
+};
+
+/**
+ * Print up to `limit` items of a problem category
+ */
+function printCategory(title: string, lines: string[], limit: number = 20): void {
+  if (lines.length === 0) {
+    return;
+  }
+
+  console.log(`\n${title} (${lines.length}):`);
+  lines.slice(0, limit).forEach(line => console.log(`   • ${line}`));
+  if (lines.length > limit) {
+    console.log(`   ... and ${lines.length - limit} more`);
+  }
+}
+
+/**
+ * Print a test result for humans, or as JSON
+ */
+function printTestResult(result: TestResult, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  printCategory('❌ Errors', result.errors);
+  printCategory('❌ Missing entries', result.missing);
+  printCategory('✏️  Size mismatches', result.sizeMismatches.map(m => `${m.path}: expected ${m.expected} bytes, found ${m.actual}`));
+  printCategory('✏️  Hash mismatches', result.hashMismatches);
+
+  console.log('\n' + '═'.repeat(80));
+  if (result.status === 'pass') {
+    console.log(`✅ PASS: integrity test passed${result.extracted ? `, ${result.checked} entries match metadata.csv` : ''}`);
+  } else {
+    console.log(`❌ FAIL (${result.status}, exit code ${TEST_EXIT_CODES[result.status]})`);
+  }
+  console.log('═'.repeat(80));
+}
+
+/**
+ * Classify a failed archiver run: key and tool problems are tool errors, anything else is corruption
+ */
+function classifyFailure(stderr: string): TestStatus {
+  return isKeyError(stderr) || /command not found|not found: /i.test(stderr)
+    ? 'tool-error'
+    : 'corrupt';
+}
+
+/**
+ * Compare an extracted root with its metadata.csv: presence of files and directories, sizes and (if recorded) hashes
+ * Symlinks and special files are recreated from metadata on restore and are not checked; paths are reported with the root name
+ */
+async function compareWithMetadata(extractDir: string, root: ArchiveRoot, result: TestResult): Promise<void> {
+  for (const entry of await readMetadataFile(join(extractDir, root.metadata))) {
+    if (entry.type !== 'file' && entry.type !== 'directory') {
+      continue;
+    }
+
+    result.checked++;
+    const path = `${root.name}/${entry.path}`;
+    const filePath = join(extractDir, path);
+    const stats = await fs.lstat(filePath).catch(() => null);
+    if (!stats || stats.isDirectory() !== (entry.type === 'directory')) {
+      result.missing.push(path);
+    } else if (entry.type === 'file' && entry.size !== undefined && stats.size !== entry.size) {
+      result.sizeMismatches.push({ path, expected: entry.size, actual: stats.size });
+    } else if (entry.type === 'file' && entry.hash && await hashFile(filePath) !== entry.hash) {
+      result.hashMismatches.push(path);
+    }
+  }
+}
+
+/**
+ * Run an archiver command for the test, exiting on Ctrl-C
+ * Returns the failure status, or null when the command succeeded
+ */
+async function runTestCommand(
+  backend: ArchiveBackend,
+  command: string,
+  cwd: string,
+  archive: ArchiveInput,
+  options: TestOptions,
+  result: TestResult
+): Promise<TestStatus | null> {
+  if (!options.json) {
+    console.log(`Command: ${redactKey(command, options.password)}`);
+  }
+
+  const run = await runWithProgress(command, cwd, {
+    totalBytes: archive.size,
+    parse: backend.parseProgress,
+    stdinFiles: backend.extractsFromStdin ? archive.files : undefined,
+    quiet: options.json
+  });
+  if (run.interrupted) {
+    process.exit(INTERRUPTED_EXIT_CODE);
+  }
+  if (run.status === 0) {
+    return null;
+  }
+
+  const status = classifyFailure(run.stderr);
+  result.errors.push(describeKeyError(run.stderr, options.password) ?? `${backend.tool} exited with code ${run.status}`);
+  return status;
+}
+
+/**
+ * Test an archive without restoring it
+ * Runs the archiver's checksum test, or with `extract` extracts into a temporary directory
+ * (which also verifies checksums) and compares the files with the embedded metadata.csv
+ */
+export async function testArchive(archivePath: string, options: TestOptions = {}): Promise<TestResult> {
+  const resolvedArchivePath = resolve(archivePath);
+  const log = (message: string) => {
+    if (!options.json) {
+      console.log(message);
+    }
+  };
+
+  const result: TestResult = {
+    archive: resolvedArchivePath,
+    format: null,
+    status: 'pass',
+    integrity: false,
+    metadataPaths: [],
+    extracted: false,
+    checked: 0,
+    missing: [],
+    sizeMismatches: [],
+    hashMismatches: [],
+    errors: []
+  };
+  const finish = (status: TestStatus, error?: string): TestResult => {
+    result.status = status;
+    if (error) {
+      result.errors.push(error);
+    }
+    printTestResult(result, options.json === true);
+    return result;
+  };
+
+  log(`Testing archive: ${resolvedArchivePath}`);
+
+  // Split archives are tested volume by volume, then read in place or (zpaq) reassembled
+  let index: SplitIndex | null = null;
+  const volumeIndexPath = await findVolumeIndex(resolvedArchivePath);
+  if (volumeIndexPath) {
+    try {
+      index = await readVolumeIndex(volumeIndexPath);
+    } catch (error) {
+      return finish('corrupt', `Cannot read volume index ${volumeIndexPath}: ${(error as Error).message}`);
+    }
+    result.format = index.format;
+
+    log(`Checking ${index.volumes.length} volumes...`);
+    const { missing, damaged } = await findVolumeProblems(volumeIndexPath, index);
+    if (missing.length > 0 || damaged.length > 0) {
+      result.errors.push(...missing.map(name => `Missing volume: ${name}`), ...damaged.map(description => `Damaged volume: ${description}`));
+      return finish('corrupt');
+    }
+  } else {
+    const exists = await fs.stat(resolvedArchivePath).then(stats => stats.isFile(), () => false);
+    if (!exists) {
+      return finish('tool-error', `Archive ${resolvedArchivePath} does not exist`);
+    }
+    result.format = await detectArchiveFormat(resolvedArchivePath) ?? 'zpaq';
+  }
+
+  const backend = getBackend(result.format);
+  if (!backend.detect()) {
+    return finish('tool-error', `${backend.tool} is not installed, it is needed to test ${backend.format} archives`);
+  }
+
+  // Temporary files (reassembled volumes, extracted content) are removed on exit
+  const workDir = await fs.mkdtemp(join(tmpdir(), 'paqt-test-'));
+  process.once('exit', () => rmSync(workDir, { recursive: true, force: true }));
+
+  let archive = index ? volumeInput(volumeIndexPath!, index, backend) : await archiveFileInput(resolvedArchivePath);
+  if (!archive) {
+    const joinedPath = join(workDir, index!.archive);
+    try {
+      await joinVolumes(volumeIndexPath!, index!, joinedPath);
+    } catch (error) {
+      return finish('corrupt', (error as Error).message);
+    }
+    archive = await archiveFileInput(joinedPath);
+  }
+
+  // The listing needs an intact index, so failing to read it already means corruption
+  let roots: ArchiveRoot[];
+  try {
+    roots = findArchiveRoots(backend, archive, options.password);
+  } catch (error) {
+    const message = (error as Error).message;
+    return finish(classifyFailure(message), `Cannot list the archive: ${message}`);
+  }
+  result.metadataPaths = roots.map(root => root.metadata);
+  if (roots.length === 0) {
+    return finish('missing-metadata', 'The archive contains no metadata.csv');
+  }
+  log(`✓ Found ${result.metadataPaths.join(', ')}`);
+
+  if (!options.extract) {
+    log(`Running integrity test with ${backend.tool}...`);
+    const failure = await runTestCommand(backend, backend.testCommand({ archivePath: archive.path, password: options.password }),
+      workDir, archive, options, result);
+    if (failure) {
+      return finish(failure);
+    }
+    result.integrity = true;
+    return finish('pass');
+  }
+
+  const extractDir = join(workDir, 'extracted');
+  await fs.mkdir(extractDir);
+  log(`Extracting into a temporary directory with ${backend.tool}...`);
+  const failure = await runTestCommand(backend,
+    backend.extractCommand({ archivePath: archive.path, includes: [], excludes: [], password: options.password }),
+    extractDir, archive, options, result);
+  if (failure) {
+    return finish(failure);
+  }
+  result.integrity = true;
+  result.extracted = true;
+
+  for (const root of roots) {
+    if (!(await fs.access(join(extractDir, root.metadata)).then(() => true, () => false))) {
+      return finish('missing-metadata', `${root.metadata} was listed but not extracted`);
+    }
+  }
+
+  log('Comparing extracted files with metadata.csv...');
+  for (const root of roots) {
+    await compareWithMetadata(extractDir, root, result);
+  }
+
+  const mismatches = result.missing.length + result.sizeMismatches.length + result.hashMismatches.length;
+  await fs.rm(extractDir, { recursive: true, force: true });
+  return finish(mismatches > 0 ? 'corrupt' : 'pass');
+}
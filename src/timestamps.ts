@@ -0,0 +1,137 @@
+import { execFile, execFileSync } from 'child_process';
+import { promisify } from 'util';
+import { promises as fs } from 'fs';
+
+/**
+ * Nanosecond-precise timestamps, stored as ISO-8601 UTC strings with up to nine fractional digits
+ */
+
+const execFileAsync = promisify(execFile);
+
+const NS_PER_US = 1_000n;
+const NS_PER_MS = 1_000_000n;
+const NS_PER_SECOND = 1_000_000_000n;
+
+/** Date and time, optional fraction of any length and optional zone (UTC when absent) */
+const TIMESTAMP_PATTERN = /^(.+T\d{2}:\d{2}:\d{2})(?:\.(\d+))?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/** A parsed timestamp and the number of fractional digits it was written with */
+interface ParsedTimestamp {
+  ns: bigint;
+  digits: number;
+}
+
+/**
+ * Round nanoseconds down to a multiple of `unit` (also before 1970)
+ */
+function floorTo(ns: bigint, unit: bigint): bigint {
+  const remainder = ns % unit;
+  return ns - (remainder < 0n ? remainder + unit : remainder);
+}
+
+/**
+ * Parse an ISO-8601 timestamp, keeping every fractional digit
+ */
+function parseTimestamp(value: string): ParsedTimestamp {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  const wholeMs = match ? Date.parse(`${match[1]}${match[3] ?? 'Z'}`) : Date.parse(value);
+  if (isNaN(wholeMs)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  if (!match) {
+    return { ns: BigInt(wholeMs) * NS_PER_MS, digits: 3 };
+  }
+
+  const fraction = (match[2] ?? '').slice(0, 9);
+  return { ns: BigInt(wholeMs) * NS_PER_MS + BigInt(fraction.padEnd(9, '0')), digits: fraction.length };
+}
+
+/**
+ * Format nanoseconds since the epoch as an ISO-8601 UTC string (e.g. "2024-03-31T01:30:00.123456789Z")
+ */
+export function formatTimestampNs(ns: bigint): string {
+  const whole = floorTo(ns, NS_PER_SECOND);
+  const date = new Date(Number(whole / NS_PER_MS)).toISOString().slice(0, -5);
+  return `${date}.${(ns - whole).toString().padStart(9, '0')}Z`;
+}
+
+/**
+ * Parse an ISO-8601 timestamp into nanoseconds since the epoch
+ */
+export function parseTimestampNs(value: string): bigint {
+  return parseTimestamp(value).ns;
+}
+
+/**
+ * Absolute difference between two timestamps in nanoseconds, compared at the precision of the coarser one
+ * so millisecond values written by older versions still match the nanosecond values read from disk
+ */
+export function timestampDifferenceNs(first: string, second: string): bigint {
+  const a = parseTimestamp(first);
+  const b = parseTimestamp(second);
+  const unit = 10n ** BigInt(9 - Math.min(a.digits, b.digits));
+  const difference = floorTo(a.ns, unit) - floorTo(b.ns, unit);
+  return difference < 0n ? -difference : difference;
+}
+
+/**
+ * Convert nanoseconds to the seconds fs.utimes takes, so it sets exactly the contained microseconds
+ * libuv truncates the double to whole microseconds; half a microsecond of bias keeps rounding errors of the
+ * double from landing one microsecond too early
+ */
+function toUtimesSeconds(ns: bigint): number {
+  const whole = floorTo(ns, NS_PER_SECOND);
+  return Number(whole / NS_PER_SECOND) + (Number((ns - whole) / NS_PER_US) + 0.5) / 1e6;
+}
+
+/**
+ * Check whether fs.utimes cannot set a timestamp: it has sub-microsecond digits, or lies before 1970
+ * (Node replaces negative times with the current time)
+ */
+function needsTouch(ns: bigint): boolean {
+  return ns < 0n || floorTo(ns, NS_PER_US) !== ns;
+}
+
+/**
+ * Set timestamps with touch, which takes the full fraction in UTC
+ * Equal access and modification times are set in one call
+ */
+async function touchTimestamps(filePath: string, accessNs: bigint | null, modifiedNs: bigint | null, isSymlink: boolean): Promise<void> {
+  const run = (flags: string[], ns: bigint) =>
+    execFileAsync('touch', [...(isSymlink ? ['-h'] : []), ...flags, '-d', formatTimestampNs(ns), filePath]);
+  if (accessNs !== null && accessNs === modifiedNs) {
+    await run([], accessNs);
+    return;
+  }
+  if (modifiedNs !== null) {
+    await run(['-m'], modifiedNs);
+  }
+  if (accessNs !== null) {
+    await run(['-a'], accessNs);
+  }
+}
+
+/**
+ * Set access and modification times to the nanosecond
+ * fs.utimes sets whole microseconds after 1970; only other timestamps are set again with touch,
+ * so restoring from microsecond-precise metadata never starts a process
+ * Symlinks get their own timestamps and are never followed
+ */
+export async function setTimestampsNs(filePath: string, accessNs: bigint, modifiedNs: bigint, isSymlink: boolean): Promise<void> {
+  if (isSymlink) {
+    await fs.lutimes(filePath, toUtimesSeconds(accessNs), toUtimesSeconds(modifiedNs));
+  } else {
+    await fs.utimes(filePath, toUtimesSeconds(accessNs), toUtimesSeconds(modifiedNs));
+  }
+
+  if (needsTouch(accessNs) || needsTouch(modifiedNs)) {
+    await touchTimestamps(filePath, needsTouch(accessNs) ? accessNs : null, needsTouch(modifiedNs) ? modifiedNs : null, isSymlink);
+  }
+}
+
+/**
+ * Lower the birth time (macOS) by touching the file with an earlier time; also sets atime and mtime
+ */
+export function touchBirthTime(filePath: string, birthTime: string): void {
+  execFileSync('touch', ['-d', formatTimestampNs(parseTimestampNs(birthTime)), filePath], { stdio: 'ignore' });
+}
@@ -2,30 +2,385 @@
  * Type definitions for paqt CLI tool
  */
 
-/** Metadata entry for a file */
+/** Kind of filesystem entry recorded in metadata */
+export type EntryType = 'file' | 'directory' | 'symlink' | 'fifo' | 'socket' | 'block-device' | 'char-device';
+
+/** Metadata entry for a file, directory, symlink or special file */
 export interface FileMetadata {
   path: string;
+  type: EntryType;
   modifiedTime: string; // ISO-8601 format
+  accessTime?: string; // ISO-8601 format
+  birthTime?: string; // ISO-8601 format
+  mode?: number; // permission bits (including setuid/setgid/sticky)
+  uid?: number;
+  gid?: number;
+  size?: number; // bytes, files only
+  hash?: string; // SHA-256 of file contents, hex
+  linkTarget?: string; // symlink target as stored in the link (relative or absolute)
+  linkGroup?: string; // files sharing an inode (hard links) share this id
+  deviceMajor?: number; // block and character devices only
+  deviceMinor?: number; // block and character devices only
+}
+
+/** Metadata fields that can be re-applied by the restorer */
+export type RestorableField = 'path' | 'symlink' | 'hardlink' | 'special' | 'mtime' | 'atime' | 'birthtime' | 'mode' | 'owner';
+
+/** A single metadata field that could not be restored */
+export interface RestoreFailure {
+  path: string;
+  field: RestorableField;
+  reason: string;
+}
+
+/** Archive formats paqt can write and read */
+export type ArchiveFormat = 'zpaq' | 'tar.zst' | 'tar.xz' | '7z';
+
+/** Inputs for building an archiver's compress command */
+export interface CompressRequest {
+  archivePath: string; // absolute
+  rootNames: string[]; // folder names, archived relative to their common parent directory
+  excludes: string[]; // glob patterns starting with a root name (`*` also matches `/`)
+  settings: CompressionSettings;
+  password?: string;
+  stagedDir: string; // absolute directory archived at the top level under its own name (manifest and staged metadata)
+}
+
+/** Inputs for building an archiver's extract command (run inside the output directory) */
+export interface ExtractRequest {
+  archivePath: string; // absolute
+  includes: string[]; // glob patterns below the archive root; empty extracts everything
+  excludes: string[];
+  until?: string; // version number or 14-digit UTC date (versioned formats only)
+  password?: string;
+  skipExisting?: boolean; // leave files already on disk untouched (backends with `skipsExisting` only)
+}
+
+/** Inputs for building an archiver's integrity test command */
+export interface TestRequest {
+  archivePath: string; // absolute
+  password?: string;
+}
+
+/** Inputs for building an archiver's list command */
+export interface ListRequest {
+  archivePath: string; // absolute
+  allVersions?: boolean;
+  match?: string; // glob the archiver may use to narrow the listing; callers filter again
+  password?: string;
+}
+
+/**
+ * An archive format implementation
+ * Backends only build shell commands and parse their output; running them,
+ * logging and timestamp restoration are shared
+ */
+export interface ArchiveBackend {
+  format: ArchiveFormat;
+  extension: string; // including the leading dot
+  tool: string; // executable that must be installed
+  installHints: string[];
+  supportsVersions: boolean;
+  supportsEncryption: boolean;
+  detect(): boolean; // the tool is installed
+  matchesMagic(header: Buffer): boolean;
+  compressCommand(request: CompressRequest): string;
+  extractCommand(request: ExtractRequest): string;
+  listCommand(request: ListRequest): string;
+  testCommand(request: TestRequest): string; // verifies checksums without writing files
+  parseListing(output: string, allVersions: boolean): ArchiveEntry[];
+  parseVersions?(output: string): ArchiveVersion[]; // versioned formats, from `listCommand` with allVersions
+  isMissingMatchOnly?(stderr: string): boolean; // a failed extraction only reports include globs without matches
+  parseProgress?(output: string): ProgressUpdate | null; // progress from a chunk of archiver output
+  extractsFromStdin?: boolean; // extract and test commands read the archive from stdin
+  opensVolumes?: boolean; // given the first volume (archive.001), the archiver reads the following ones itself
+  skipsExisting?: boolean; // the extract command honours `skipExisting`
+  escapeWildcards?(path: string): string; // makes a path match only itself in patterns (archivers with escapes)
 }
 
-/** Configuration for environment tools */
-export interface ToolConfig {
-  zpaqCommand: string;
+/** Progress reported by an archiver: processed bytes or the completed fraction (0-1) */
+export interface ProgressUpdate {
+  bytes?: number;
+  fraction?: number;
 }
 
+/** Outcome of an archiver command run with a progress bar */
+export interface CommandResult {
+  status: number;
+  stderr: string;
+  interrupted: boolean; // stopped by Ctrl-C
+}
+
+/** How `scan --update` treats entries whose timestamp or size changed on disk */
+export type ChangePolicy = 'keep' | 'new' | 'ask';
+
 /** Options for scan command */
 export interface ScanOptions {
   appendOnly?: boolean;
+  update?: boolean; // reconcile existing metadata with the disk
+  onChange?: ChangePolicy; // policy for changed entries in update mode (default: 'new')
+  hash?: boolean; // compute SHA-256 content hashes
+  concurrency?: number; // maximum concurrent readdir/stat calls
+  exclude?: string[]; // extra gitignore-style patterns on top of .paqtignore
+  report?: string; // path of a JSON report file
+  output?: string; // metadata.csv to write instead of the one in the folder
+}
+
+/** Number of entries in which a folder and its metadata.csv differ */
+export interface MetadataStaleness {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+/** Machine-readable code of a problem found during a scan */
+export type ScanIssueCode =
+  | 'DIRECTORY_CYCLE'
+  | 'DEEP_NESTING'
+  | 'PERMISSION_DENIED'
+  | 'DIRECTORY_READ_ERROR'
+  | 'FILE_ACCESS_ERROR'
+  | 'SPECIAL_FILE';
+
+/** How serious a scan issue is */
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+/** A problem found during a scan */
+export interface ScanIssue {
+  code: ScanIssueCode;
+  severity: IssueSeverity;
+  path: string; // relative to the scanned folder
+  message: string;
+  suggestedFix: string;
+  relatedPath?: string; // e.g. the first occurrence of a directory cycle
+}
+
+/** Detailed analysis of a problematic directory */
+export interface DirectoryAnalysis {
+  path: string; // relative to the scanned folder
+  issueCode: ScanIssueCode;
+  accessible: boolean;
+  error?: string;
+  modifiedTime?: string; // ISO-8601 format
+  permissions?: { mode: string; uid: number; gid: number };
+  directoryCount: number;
+  fileCount: number;
+  truncated: boolean; // analysis stopped after its entry limit
+  deepestPaths: Array<{ depth: number; path: string }>;
+  patternMatches: Array<{ pattern: string; category: 'safe' | 'careful' | 'dangerous'; description: string; count: number; examples: string[] }>;
+  symlinks: Array<{ path: string; target: string; broken: boolean }>;
+}
+
+/** Machine-readable result of a scan, written by `scan --report` */
+export interface ScanReport {
+  version: 1;
+  folder: string;
+  startedAt: string; // ISO-8601 format
+  finishedAt: string; // ISO-8601 format
+  summary: {
+    entries: number;
+    files: number;
+    directories: number;
+    symlinks: number;
+    specialFiles: number;
+    skippedPaths: number;
+    errors: number;
+    warnings: number;
+  };
+  skippedPaths: string[];
+  issues: ScanIssue[];
+  analyses: DirectoryAnalysis[];
+}
+
+/** Options for restore-times command */
+export interface RestoreTimesOptions {
+  metadata?: string; // metadata file to apply (default: metadata.csv in the folder)
+  strip?: number; // leading path components removed from metadata paths
+  prefix?: string; // prepended to metadata paths after stripping
+  dryRun?: boolean; // only report what would change
+}
+
+/** Options for verify command */
+export interface VerifyOptions {
+  hash?: boolean; // compare content hashes when present in metadata (default: true)
+  tolerance?: number; // allowed mtime difference in milliseconds
+}
+
+/** Outcome of `paqt test` */
+export type TestStatus = 'pass' | 'corrupt' | 'missing-metadata' | 'tool-error';
+
+/** Options for test command */
+export interface TestOptions {
+  extract?: boolean; // also extract into a temporary directory and compare with metadata.csv
+  json?: boolean; // machine-readable output only
+  password?: string;
+}
+
+/** Result of testing an archive */
+export interface TestResult {
+  archive: string;
+  format: ArchiveFormat | null;
+  status: TestStatus;
+  integrity: boolean; // the archiver's checksum test passed
+  metadataPaths: string[]; // locations of each root's metadata.csv inside the archive
+  extracted: boolean;
+  checked: number; // metadata entries compared with the extracted files
+  missing: string[];
+  sizeMismatches: Array<{ path: string; expected: number; actual: number }>;
+  hashMismatches: string[];
+  errors: string[];
+}
+
+/** Result of comparing a folder against its metadata.csv */
+export interface VerifyResult {
+  checked: number;
+  missing: string[];
+  skipped: string[]; // special files absent on disk, which decompress only recreates with --special-files
+  extra: string[];
+  modified: Array<{ path: string; reason: string }>;
+  timestampDrift: TimestampDrift[];
+}
+
+/** An entry whose modification time on disk differs from metadata */
+export interface TimestampDrift {
+  path: string;
+  expected: string; // from metadata.csv
+  actual: string; // on disk
+}
+
+/** zpaq compression method (0 = store with deduplication ... 5 = maximum compression) */
+export type CompressionMethod = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** Compression settings used for an archive, recorded in its metadata.csv */
+export interface CompressionSettings {
+  method: CompressionMethod;
+  threads?: number; // compression worker threads (default: number of cores)
+  blockSize?: number; // log2 of the block size in MB, 0-11 (default: chosen by zpaq)
+  auto: boolean; // method was picked from the folder size and content mix
 }
 
 /** Options for compress command */
 export interface CompressOptions {
   output?: string;
+  exclude?: string[]; // extra gitignore-style patterns on top of .paqtignore
+  method?: CompressionMethod | 'auto'; // default: 5
+  threads?: number;
+  blockSize?: number;
+  incremental?: boolean; // add a new version to an existing archive
+  password?: string; // encrypt the archive with AES
+  format?: ArchiveFormat; // default: zpaq
+  split?: number; // split the archive into volumes of at most this many bytes
+  stageMetadata?: boolean; // generate metadata.csv outside the folder and store it under the reserved path
+}
+
+/** A volume of a split archive */
+export interface ArchiveVolume {
+  name: string; // file name, next to the index
+  size: number;
+  hash: string; // SHA-256 of the volume
+}
+
+/** How archiver commands reach an archive; split archives are read in place where the archiver allows it */
+export interface ArchiveInput {
+  path: string; // passed to commands: the archive, or the first volume for archivers that open volumes themselves
+  files: string[]; // piped one after another to archivers that read stdin: the archive, or every volume
+  size: number; // total bytes, for progress
+}
+
+/** Index of a split archive, written next to its volumes */
+export interface SplitIndex {
+  version: number;
+  archive: string; // file name of the reassembled archive
+  format: ArchiveFormat;
+  volumeSize: number;
+  totalSize: number;
+  hash: string; // SHA-256 of the reassembled archive
+  createdAt: string;
+  volumes: ArchiveVolume[];
 }
 
 /** Options for decompress command */
 export interface DecompressOptions {
   output?: string | boolean; // boolean when -o flag is used without value
+  specialFiles?: boolean; // recreate FIFOs and (as root) device nodes
+  version?: number; // extract the state as of this archive version
+  until?: string; // extract the latest version created at or before this date
+  include?: string[]; // gitignore-style globs; only matching entries are extracted
+  exclude?: string[]; // gitignore-style globs; matching entries are not extracted
+  password?: string; // key of an encrypted archive
+  merge?: MergeStrategy; // extract into a non-empty directory, resolving conflicts with this strategy
+  dryRun?: boolean; // only preview which files a merge would add, replace or keep
+  resume?: boolean; // continue an interrupted extraction recorded in the output directory's journal
+}
+
+/** A folder stored at the top level of an archive */
+export interface ArchiveRoot {
+  name: string;
+  metadata: string; // archive path of its metadata.csv, e.g. "photos/metadata.csv" or ".paqt/photos/metadata.csv" (staged)
+}
+
+/** Layout of an archive, stored as .paqt/manifest.json when it is created */
+export interface ArchiveManifest {
+  version: number;
+  createdAt: string;
+  roots: ArchiveRoot[];
+}
+
+/** Journal of a running extraction, kept in the output directory until timestamps are restored */
+export interface ExtractionJournal {
+  version: number;
+  archive: string; // archive file name (of the reassembled archive for split archives)
+  archiveSize: number; // bytes, to detect a different archive under the same name
+  format: ArchiveFormat;
+  startedAt: string; // ISO-8601
+  selection: {
+    version?: number;
+    until?: string;
+    include?: string[];
+    exclude?: string[];
+  };
+}
+
+/** How extracted entries are merged with files already in the output directory */
+export type MergeStrategy = 'overwrite' | 'skip-existing' | 'keep-newer';
+
+/** Paths (relative to the output directory) by how a merge resolved them */
+export interface MergeSummary {
+  added: string[]; // not present on disk
+  replaced: string[]; // conflicts resolved in favour of the archive
+  kept: string[]; // conflicts resolved in favour of the file on disk
+}
+
+/** A version (transaction) of an append-only zpaq archive */
+export interface ArchiveVersion {
+  number: number;
+  date: string; // ISO-8601 format, UTC
+  addedFiles: number;
+  deletedFiles: number;
+  compressedSize: number; // bytes added to the archive by this version
+}
+
+/** An entry in an archive listing */
+export interface ArchiveEntry {
+  path: string; // path inside the archive, including the archived folder name
+  type: 'file' | 'directory';
+  size: number;
+  date: string; // ISO-8601 format, UTC
+  attributes: string; // as printed by the archiver (e.g. octal mode, permission string or attribute letters)
+  version?: number; // archive version the entry belongs to (only when listing all versions)
+}
+
+/** Options for list command */
+export interface ListOptions {
+  json?: boolean; // print entries as JSON instead of a tree
+  flat?: boolean; // one path per line instead of a tree
+  allVersions?: boolean; // list entries of every version instead of the latest state
+  match?: string[]; // gitignore-style globs; only matching entries are listed
+  minSize?: number; // bytes
+  maxSize?: number; // bytes
+  after?: string; // only entries modified at or after this date
+  before?: string; // only entries modified before this date
+  password?: string; // key of an encrypted archive
 }
 
 /** Options for clean command */
@@ -34,4 +389,10 @@ export interface CleanOptions {
   includeCareful?: boolean;
   includeDangerous?: boolean;
   patterns?: string[];
+  exclude?: string[]; // extra gitignore-style patterns on top of .paqtignore
+}
+
+/** Options for info command */
+export interface InfoOptions {
+  exclude?: string[]; // extra gitignore-style patterns on top of .paqtignore
 } 
\ No newline at end of file
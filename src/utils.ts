@@ -1,10 +1,11 @@
 import { execSync } from 'child_process';
-import { ToolConfig } from './types.js';
+import { Writable } from 'stream';
+import { createInterface } from 'readline';
 
 /**
  * Check if a command exists and is executable
  */
-function commandExists(command: string): boolean {
+export function commandExists(command: string): boolean {
   try {
     execSync(`command -v ${command}`, { stdio: 'ignore' });
     return true;
@@ -13,37 +14,6 @@ function commandExists(command: string): boolean {
   }
 }
 
-/**
- * Detect and validate required tools (zpaq)
- */
-export function detectTools(): ToolConfig {
-  console.log('Checking for required tools...');
-  
-  // Check for zpaq
-  if (!commandExists('zpaq')) {
-    console.error('Error: zpaq command not found. Please install zpaq.');
-    console.error('  On macOS: brew install zpaq');
-    console.error('  On Ubuntu/Debian: sudo apt install zpaq');
-    console.error('  Or download from: https://mattmahoney.net/dc/zpaq.html');
-    process.exit(1);
-  }
-  
-  console.log('✓ Using zpaq with method 5 compression');
-  
-  return {
-    zpaqCommand: 'zpaq'
-  };
-}
-
-/**
- * Check if a path is a symlink by checking for common symlink patterns
- */
-export function isSymlink(path: string): boolean {
-  // Skip files with symlink-like extensions
-  const filename = path.split('/').pop() || '';
-  return filename.match(/\.l.*nk$/i) !== null;
-}
-
 /**
  * Convert a Date object to ISO-8601 string
  */
@@ -81,4 +51,119 @@ export function removeExtension(filename: string, extension: string): string {
     return filename.slice(0, -extension.length);
   }
   return filename;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Create a limiter that runs at most `concurrency` async tasks at a time
+ */
+export function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  
+  // A finished task hands its slot straight to the next waiter, so `active` never exceeds the cap
+  const next = () => {
+    const wake = waiting.shift();
+    if (wake) {
+      wake();
+    } else {
+      active--;
+    }
+  };
+  
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      await new Promise<void>(resolveSlot => waiting.push(resolveSlot));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      next();
+    }
+  };
+}
+
+/**
+ * Ask the user a question on the terminal and return the trimmed answer
+ */
+export function askQuestion(message: string): Promise<string> {
+  return new Promise(resolveAnswer => {
+    const rl = createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+    
+    rl.question(message, answer => {
+      rl.close();
+      resolveAnswer(answer.trim());
+    });
+  });
+}
+
+/**
+ * Ask for a secret on the terminal without echoing what is typed
+ * The prompt goes to stderr so machine-readable stdout (e.g. --json) stays clean
+ */
+export function askPassword(message: string): Promise<string> {
+  return new Promise(resolveAnswer => {
+    process.stderr.write(message);
+    const muted = new Writable({
+      write(_chunk, _encoding, callback) {
+        callback();
+      }
+    });
+    const rl = createInterface({
+      input: process.stdin,
+      output: muted,
+      terminal: process.stdin.isTTY === true
+    });
+    
+    // Input that ends without a line (e.g. an empty pipe) counts as an empty answer
+    let answered = false;
+    rl.on('close', () => {
+      if (!answered) {
+        process.stderr.write('\n');
+        resolveAnswer('');
+      }
+    });
+    
+    rl.question('', answer => {
+      answered = true;
+      rl.close();
+      process.stderr.write('\n');
+      resolveAnswer(answer);
+    });
+  });
+}
+
+/**
+ * Quote a value for safe use as a single shell word
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Format bytes to human readable format
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+/**
+ * Parse a size such as "500", "64K", "10M" or "1.5G" into bytes (binary units)
+ * Returns NaN for invalid input
+ */
+export function parseSize(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([KMGT]?)i?B?$/i.exec(value.trim());
+  if (!match) {
+    return NaN;
+  }
+  const exponent = ['', 'K', 'M', 'G', 'T'].indexOf(match[2].toUpperCase());
+  return Math.round(parseFloat(match[1]) * 1024 ** exponent);
+}
@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { VerifyOptions, VerifyResult } from './types.js';
+import { timestampDifferenceNs } from './timestamps.js';
+import { hashFile, isSpecialEntryType } from './metadata.js';
+import { collectFolderMetadata, loadMetadata } from './scanner.js';
+
+/**
+ * Print up to `limit` items of a mismatch category
+ */
+function printCategory(title: string, lines: string[], limit: number = 20): void {
+  if (lines.length === 0) {
+    return;
+  }
+
+  console.log(`\n${title} (${lines.length}):`);
+  lines.slice(0, limit).forEach(line => console.log(`   • ${line}`));
+  if (lines.length > limit) {
+    console.log(`   ... and ${lines.length - limit} more`);
+  }
+}
+
+/**
+ * Check whether a verification result contains any mismatch
+ */
+export function hasMismatches(result: VerifyResult): boolean {
+  return result.missing.length > 0 ||
+    result.extra.length > 0 ||
+    result.modified.length > 0 ||
+    result.timestampDrift.length > 0;
+}
+
+/**
+ * Compare a folder against its metadata.csv
+ * Reports missing, extra, modified and timestamp-drifted files
+ */
+export async function verifyFolder(folderPath: string, options: VerifyOptions = {}): Promise<VerifyResult> {
+  const resolvedPath = resolve(folderPath);
+  const compareHashes = options.hash !== false;
+  const tolerance = options.tolerance ?? 0;
+
+  console.log(`Verifying folder: ${resolvedPath}`);
+
+  try {
+    await fs.access(join(resolvedPath, 'metadata.csv'));
+  } catch {
+    console.error(`Error: metadata.csv not found in ${resolvedPath}`);
+    process.exit(1);
+  }
+
+  const expected = await loadMetadata(resolvedPath);
+  const actual = await collectFolderMetadata(resolvedPath);
+  const actualByPath = new Map(actual.map(entry => [entry.path, entry]));
+  const expectedPaths = new Set(expected.map(entry => entry.path));
+
+  const result: VerifyResult = {
+    checked: 0,
+    missing: [],
+    skipped: [],
+    extra: actual.filter(entry => !expectedPaths.has(entry.path)).map(entry => entry.path),
+    modified: [],
+    timestampDrift: []
+  };
+
+  console.log(`Comparing ${expected.length} metadata entries with ${actual.length} entries on disk...`);
+
+  for (const entry of expected) {
+    const onDisk = actualByPath.get(entry.path);
+    if (!onDisk) {
+      // Special files are left out of a default restore, so their absence is not a mismatch
+      (isSpecialEntryType(entry.type) ? result.skipped : result.missing).push(entry.path);
+      continue;
+    }
+
+    result.checked++;
+
+    if (onDisk.type !== entry.type) {
+      result.modified.push({ path: entry.path, reason: `expected ${entry.type}, found ${onDisk.type}` });
+    } else if (entry.type === 'symlink' && onDisk.linkTarget !== entry.linkTarget) {
+      result.modified.push({ path: entry.path, reason: `link target ${onDisk.linkTarget} != ${entry.linkTarget}` });
+    } else if (entry.size !== undefined && onDisk.size !== entry.size) {
+      result.modified.push({ path: entry.path, reason: `size ${onDisk.size} != ${entry.size}` });
+    } else if (compareHashes && entry.hash) {
+      try {
+        const hash = await hashFile(join(resolvedPath, entry.path));
+        if (hash !== entry.hash) {
+          result.modified.push({ path: entry.path, reason: 'content hash differs' });
+        }
+      } catch (error) {
+        result.modified.push({ path: entry.path, reason: `cannot hash: ${(error as Error).message}` });
+      }
+    }
+
+    if (timestampDifferenceNs(entry.modifiedTime, onDisk.modifiedTime) > BigInt(tolerance) * 1_000_000n) {
+      result.timestampDrift.push({ path: entry.path, expected: entry.modifiedTime, actual: onDisk.modifiedTime });
+    }
+  }
+
+  // Hard link groups must still share a single inode on disk
+  const recordedGroups = new Map<string, string[]>();
+  for (const entry of expected) {
+    if (entry.linkGroup && actualByPath.has(entry.path)) {
+      recordedGroups.set(entry.linkGroup, [...(recordedGroups.get(entry.linkGroup) ?? []), entry.path]);
+    }
+  }
+  for (const paths of recordedGroups.values()) {
+    const [first, ...others] = paths;
+    const firstGroup = actualByPath.get(first)!.linkGroup;
+    for (const path of others) {
+      const group = actualByPath.get(path)!.linkGroup;
+      if (!firstGroup || group !== firstGroup) {
+        result.modified.push({ path, reason: `no longer hard-linked with ${first}` });
+      }
+    }
+  }
+
+  printCategory('❌ Missing files', result.missing);
+  printCategory('⏭️  Skipped special files (not recreated without decompress --special-files)', result.skipped);
+  printCategory('➕ Extra files', result.extra);
+  printCategory('✏️  Modified files', result.modified.map(m => `${m.path} (${m.reason})`));
+  printCategory('🕒 Timestamp drift', result.timestampDrift.map(d => `${d.path}: expected ${d.expected}, found ${d.actual}`));
+
+  console.log('\n' + '═'.repeat(80));
+  if (hasMismatches(result)) {
+    console.log(`❌ Verification failed: ${result.missing.length} missing, ${result.extra.length} extra, ` +
+      `${result.modified.length} modified, ${result.timestampDrift.length} with timestamp drift`);
+  } else {
+    console.log(`✅ Verification passed: ${result.checked} entries match metadata.csv`);
+  }
+  console.log('═'.repeat(80));
+
+  return result;
+}
@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import { resolve } from 'path';
+import { ArchiveBackend, ArchiveVersion, DecompressOptions } from './types.js';
+import { resolveArchiveBackend, runListing } from './backends/index.js';
+
+/**
+ * Versions of append-only archives (zpaq)
+ */
+
+/**
+ * Read the versions of an archive
+ */
+export function readArchiveVersions(backend: ArchiveBackend, archivePath: string, password?: string): ArchiveVersion[] {
+  if (!backend.parseVersions) {
+    return [];
+  }
+  const output = runListing(backend.listCommand({ archivePath, allVersions: true, password }), password);
+  return backend.parseVersions(output);
+}
+
+/**
+ * Format a date as the 14-digit UTC timestamp (YYYYMMDDhhmmss) zpaq accepts for -until
+ */
+function toZpaqDate(date: Date): string {
+  return date.toISOString().replace(/[^0-9]/g, '').slice(0, 14);
+}
+
+/**
+ * Pick the archive version requested by --version or --until
+ * Returns null when neither option is given (extract the latest version)
+ */
+export function selectArchiveVersion(
+  versions: ArchiveVersion[],
+  options: DecompressOptions
+): { version: ArchiveVersion; untilArgument: string } | null {
+  if (options.version !== undefined) {
+    const version = versions.find(candidate => candidate.number === options.version);
+    if (!version) {
+      const available = versions.length > 0 ? `1-${versions[versions.length - 1].number}` : 'none';
+      console.error(`Error: Archive has no version ${options.version} (available: ${available})`);
+      process.exit(1);
+    }
+    return { version, untilArgument: String(version.number) };
+  }
+
+  if (options.until !== undefined) {
+    const until = new Date(options.until);
+    if (isNaN(until.getTime())) {
+      console.error(`Error: Invalid date for --until: ${options.until}`);
+      process.exit(1);
+    }
+
+    const candidates = versions.filter(candidate => new Date(candidate.date).getTime() <= until.getTime());
+    if (candidates.length === 0) {
+      console.error(`Error: Archive has no version created at or before ${until.toISOString()}`);
+      process.exit(1);
+    }
+    return { version: candidates[candidates.length - 1], untilArgument: toZpaqDate(until) };
+  }
+
+  return null;
+}
+
+/**
+ * List the versions of an archive with their dates and sizes
+ */
+export async function showArchiveVersions(archivePath: string, password?: string): Promise<void> {
+  const resolvedArchivePath = resolve(archivePath);
+
+  try {
+    await fs.access(resolvedArchivePath);
+  } catch {
+    console.error(`Error: Archive ${resolvedArchivePath} does not exist`);
+    process.exit(1);
+  }
+
+  const backend = await resolveArchiveBackend(resolvedArchivePath);
+  if (!backend.supportsVersions) {
+    console.log(`${resolvedArchivePath} is a ${backend.format} archive, which holds a single version`);
+    return;
+  }
+
+  const versions = readArchiveVersions(backend, resolvedArchivePath, password);
+  if (versions.length === 0) {
+    console.log(`No versions found in ${resolvedArchivePath}`);
+    return;
+  }
+
+  console.log(`\n📦 Versions of ${resolvedArchivePath}:`);
+  console.log('═'.repeat(80));
+  console.log(`${'Version'.padEnd(9)}${'Date (UTC)'.padEnd(22)}${'Added'.padStart(10)}${'Deleted'.padStart(10)}${'Size'.padStart(14)}`);
+
+  for (const version of versions) {
+    const date = version.date.slice(0, 19).replace('T', ' ');
+    const size = `${(version.compressedSize / (1024 * 1024)).toFixed(2)} MB`;
+    console.log(
+      `${String(version.number).padEnd(9)}${date.padEnd(22)}` +
+      `${String(version.addedFiles).padStart(10)}${String(version.deletedFiles).padStart(10)}${size.padStart(14)}`
+    );
+  }
+
+  const totalSize = versions.reduce((sum, version) => sum + version.compressedSize, 0);
+  console.log('═'.repeat(80));
+  console.log(`${versions.length} versions, ${(totalSize / (1024 * 1024)).toFixed(2)} MB total`);
+}
@@ -0,0 +1,259 @@
+import { createHash, Hash } from 'crypto';
+import { promises as fs } from 'fs';
+import { basename, dirname, join } from 'path';
+import { ArchiveBackend, ArchiveFormat, ArchiveInput, ArchiveVolume, SplitIndex } from './types.js';
+import { formatBytes, toISOString } from './utils.js';
+import { hashFile } from './metadata.js';
+
+/**
+ * Multi-volume split archives: numbered volumes (archive.zpaq.001, ...) plus a JSON index
+ */
+
+/** Suffix of the index written next to the volumes */
+export const VOLUME_INDEX_SUFFIX = '.index.json';
+
+/** Version of the index file layout */
+const VOLUME_INDEX_VERSION = 1;
+
+/** Volume file names end with a zero-padded number of at least this many digits */
+const VOLUME_NUMBER_DIGITS = 3;
+
+/** Size of the buffer used to copy data between archive and volumes */
+const COPY_BUFFER_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Get the file name of a volume, e.g. "archive.zpaq.001"
+ */
+function volumeName(archiveName: string, number: number, count: number): string {
+  const digits = Math.max(VOLUME_NUMBER_DIGITS, String(count).length);
+  return `${archiveName}.${String(number).padStart(digits, '0')}`;
+}
+
+/**
+ * Copy `length` bytes from `source` at `position` to the end of `target`, feeding the hashes
+ */
+async function copyRange(
+  source: fs.FileHandle,
+  position: number,
+  length: number,
+  target: fs.FileHandle,
+  hashes: Hash[]
+): Promise<void> {
+  const buffer = Buffer.alloc(Math.min(COPY_BUFFER_SIZE, Math.max(length, 1)));
+  let copied = 0;
+
+  while (copied < length) {
+    const { bytesRead } = await source.read(buffer, 0, Math.min(buffer.length, length - copied), position + copied);
+    if (bytesRead === 0) {
+      throw new Error(`Unexpected end of file after ${position + copied} bytes`);
+    }
+    const chunk = buffer.subarray(0, bytesRead);
+    hashes.forEach(hash => hash.update(chunk));
+    await target.write(chunk);
+    copied += bytesRead;
+  }
+}
+
+/**
+ * Get the index path of a split archive
+ */
+export function volumeIndexPath(archivePath: string): string {
+  return `${archivePath}${VOLUME_INDEX_SUFFIX}`;
+}
+
+/**
+ * Find the index of a split archive from its index, any of its volumes or the (no longer existing) archive path
+ * Returns null when the path does not belong to a split archive
+ */
+export async function findVolumeIndex(path: string): Promise<string | null> {
+  const isFile = (candidate: string) => fs.stat(candidate).then(stats => stats.isFile(), () => false);
+
+  let candidate: string;
+  if (path.endsWith(VOLUME_INDEX_SUFFIX)) {
+    candidate = path;
+  } else if (/\.\d{3,}$/.test(path)) {
+    candidate = volumeIndexPath(path.replace(/\.\d{3,}$/, ''));
+  } else if (!(await isFile(path))) {
+    candidate = volumeIndexPath(path);
+  } else {
+    return null;
+  }
+
+  return (await isFile(candidate)) ? candidate : null;
+}
+
+/**
+ * Split an archive into volumes of at most `volumeSize` bytes and write their index
+ * The original archive is removed once all volumes and the index are written
+ */
+export async function splitArchive(archivePath: string, volumeSize: number, format: ArchiveFormat): Promise<SplitIndex> {
+  const archiveName = basename(archivePath);
+  const archiveDir = dirname(archivePath);
+  const { size: totalSize } = await fs.stat(archivePath);
+  const count = Math.max(1, Math.ceil(totalSize / volumeSize));
+  const totalHash = createHash('sha256');
+  const volumes: ArchiveVolume[] = [];
+
+  console.log(`Splitting archive into ${count} volumes of up to ${formatBytes(volumeSize)}...`);
+
+  const source = await fs.open(archivePath, 'r');
+  try {
+    for (let number = 1; number <= count; number++) {
+      const name = volumeName(archiveName, number, count);
+      const position = (number - 1) * volumeSize;
+      const size = Math.min(volumeSize, totalSize - position);
+      const hash = createHash('sha256');
+
+      const target = await fs.open(join(archiveDir, name), 'w');
+      try {
+        await copyRange(source, position, size, target, [hash, totalHash]);
+      } finally {
+        await target.close();
+      }
+
+      volumes.push({ name, size, hash: hash.digest('hex') });
+      console.log(`  ✓ ${name} (${formatBytes(size)})`);
+    }
+  } finally {
+    await source.close();
+  }
+
+  const index: SplitIndex = {
+    version: VOLUME_INDEX_VERSION,
+    archive: archiveName,
+    format,
+    volumeSize,
+    totalSize,
+    hash: totalHash.digest('hex'),
+    createdAt: toISOString(new Date()),
+    volumes
+  };
+
+  const indexPath = volumeIndexPath(archivePath);
+  await fs.writeFile(indexPath, JSON.stringify(index, null, 2) + '\n', 'utf-8');
+  await fs.unlink(archivePath);
+  console.log(`✓ Volume index written to: ${indexPath}`);
+
+  return index;
+}
+
+/**
+ * Check whether an archive path is already taken by a split archive
+ */
+export async function splitArchiveExists(archivePath: string): Promise<boolean> {
+  const archiveName = basename(archivePath);
+  const paths = [volumeIndexPath(archivePath), join(dirname(archivePath), volumeName(archiveName, 1, 1))];
+  for (const path of paths) {
+    if (await fs.access(path).then(() => true, () => false)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Read and validate a volume index
+ */
+export async function readVolumeIndex(indexPath: string): Promise<SplitIndex> {
+  const index: SplitIndex = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+  if (index.version !== VOLUME_INDEX_VERSION || !Array.isArray(index.volumes)) {
+    throw new Error(`Unsupported volume index ${indexPath} (version ${index.version})`);
+  }
+  return index;
+}
+
+/**
+ * Find volumes that are missing or differ from the size and hash recorded in the index
+ */
+export async function findVolumeProblems(indexPath: string, index: SplitIndex): Promise<{ missing: string[]; damaged: string[] }> {
+  const indexDir = dirname(indexPath);
+  const missing: string[] = [];
+  const damaged: string[] = [];
+
+  for (const volume of index.volumes) {
+    const volumePath = join(indexDir, volume.name);
+    const stats = await fs.stat(volumePath).catch(() => null);
+    if (!stats) {
+      missing.push(volume.name);
+    } else if (stats.size !== volume.size) {
+      damaged.push(`${volume.name} (size ${stats.size} != ${volume.size})`);
+    } else if (await hashFile(volumePath) !== volume.hash) {
+      damaged.push(`${volume.name} (content hash differs)`);
+    }
+  }
+
+  return { missing, damaged };
+}
+
+/**
+ * Read a volume index and check that every volume is present with the recorded size and hash
+ * Exits with a report of missing and damaged volumes
+ */
+export async function checkVolumes(indexPath: string): Promise<SplitIndex> {
+  let index: SplitIndex;
+  try {
+    index = await readVolumeIndex(indexPath);
+  } catch (error) {
+    console.error(`Error: Cannot read volume index ${indexPath}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  console.log(`Checking ${index.volumes.length} volumes of ${index.archive}...`);
+  const { missing, damaged } = await findVolumeProblems(indexPath, index);
+
+  if (missing.length > 0 || damaged.length > 0) {
+    missing.forEach(name => console.error(`  ❌ Missing volume: ${name}`));
+    damaged.forEach(description => console.error(`  ❌ Damaged volume: ${description}`));
+    console.error(`Error: ${missing.length} missing and ${damaged.length} damaged volumes, cannot reassemble ${index.archive}`);
+    process.exit(1);
+  }
+
+  console.log(`✓ All ${index.volumes.length} volumes present and intact (${formatBytes(index.totalSize)})`);
+  return index;
+}
+
+/**
+ * Concatenate checked volumes into `destination` and verify the reassembled archive
+ */
+export async function joinVolumes(indexPath: string, index: SplitIndex, destination: string): Promise<void> {
+  const indexDir = dirname(indexPath);
+  const totalHash = createHash('sha256');
+
+  const target = await fs.open(destination, 'w');
+  try {
+    for (const volume of index.volumes) {
+      const source = await fs.open(join(indexDir, volume.name), 'r');
+      try {
+        await copyRange(source, 0, volume.size, target, [totalHash]);
+      } finally {
+        await source.close();
+      }
+    }
+  } finally {
+    await target.close();
+  }
+
+  if (totalHash.digest('hex') !== index.hash) {
+    throw new Error(`Reassembled archive ${index.archive} does not match the hash recorded in the index`);
+  }
+}
+
+/**
+ * Describe how archiver commands read a single archive file
+ */
+export async function archiveFileInput(archivePath: string): Promise<ArchiveInput> {
+  const { size } = await fs.stat(archivePath);
+  return { path: archivePath, files: [archivePath], size };
+}
+
+/**
+ * Read checked volumes in place: piped into archivers that read stdin, or opened by archivers that handle volumes
+ * Returns null when the archiver needs the reassembled archive (zpaq seeks within it)
+ */
+export function volumeInput(indexPath: string, index: SplitIndex, backend: ArchiveBackend): ArchiveInput | null {
+  if (!backend.extractsFromStdin && !backend.opensVolumes) {
+    return null;
+  }
+  const files = index.volumes.map(volume => join(dirname(indexPath), volume.name));
+  return { path: files[0], files, size: index.totalSize };
+}